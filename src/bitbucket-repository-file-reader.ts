@@ -0,0 +1,94 @@
+import { RemoteReaderOptions, RemoteRepositoryFileReader, RemoteTreeFile } from './remote-repository-file-reader.js';
+import { FetchResult } from './remote-fetch.js';
+
+export interface BitbucketReaderOptions extends RemoteReaderOptions {
+  apiUrl?: string;
+  webUrl?: string;
+}
+
+export const DEFAULT_BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+export const DEFAULT_BITBUCKET_URL = 'https://bitbucket.org';
+
+const MAX_DEPTH = 10;
+
+const getCredentials = (): string | undefined => {
+  if (process.env.BITBUCKET_TOKEN) return `Bearer ${process.env.BITBUCKET_TOKEN}`;
+  const { BITBUCKET_USERNAME: username, BITBUCKET_APP_PASSWORD: password } = process.env;
+  return username && password ? `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` : undefined;
+};
+
+export class BitbucketRepositoryFileReader extends RemoteRepositoryFileReader {
+  readonly name: string;
+  private readonly workspace: string;
+  private readonly repo: string;
+  private readonly apiUrl: string;
+  private readonly webUrl: string;
+  private readonly options: BitbucketReaderOptions;
+
+  constructor(workspace: string, repo: string, path = '', ref = '', options: BitbucketReaderOptions = {}) {
+    super('Bitbucket', path, ref, options.token ? `Bearer ${options.token}` : getCredentials(), options);
+    this.workspace = workspace;
+    this.repo = repo;
+    this.apiUrl = (options.apiUrl || process.env.BITBUCKET_API_URL || DEFAULT_BITBUCKET_API_URL).replace(/\/+$/, '');
+    this.webUrl = (options.webUrl || process.env.BITBUCKET_URL || DEFAULT_BITBUCKET_URL).replace(/\/+$/, '');
+    this.options = options;
+
+    if (!workspace || !repo) throw new Error('Bitbucket sources require a workspace and a repository');
+    this.name = `bitbucket:${this.workspace}/${this.repo}${this.path ? `/${this.path}` : ''}${this.ref ? `@${this.ref}` : ''}`;
+  }
+
+  withRef(ref: string): BitbucketRepositoryFileReader {
+    return new BitbucketRepositoryFileReader(this.workspace, this.repo, this.path, ref, { ...this.options, apiUrl: this.apiUrl, webUrl: this.webUrl, diskCache: this.diskCache });
+  }
+
+  protected fetchTree(ref: string): Promise<FetchResult<RemoteTreeFile[]> | null> {
+    const url = `${this.getSourceUrl(ref, this.path)}${this.path ? '/' : ''}?max_depth=${MAX_DEPTH}&pagelen=100`;
+    return this.fetchPages<RemoteTreeFile>(url, this.directoryCacheTtl, (data) => ({
+      items: (Array.isArray(data?.values) ? data.values : []).filter((entry: any) => entry.type === 'commit_file')
+        .map((entry: any) => ({ path: entry.path, ...(typeof entry.size === 'number' && { size: entry.size }) })),
+      ...(typeof data?.next === 'string' && { next: data.next })
+    }));
+  }
+
+  protected fetchFileContent(file: RemoteTreeFile, ref: string, ttl: number): Promise<FetchResult<string> | null> {
+    return this.fetcher.fetch(this.getSourceUrl(ref, file.path), ttl, (data: string) => data, 'text');
+  }
+
+  protected async fetchCommitSha(ref: string): Promise<FetchResult<string> | null> {
+    const repository = ref ? null : await this.fetcher.fetch(this.getRepositoryUrl(), this.directoryCacheTtl, (data) => String(data.mainbranch?.name ?? ''));
+    const revision = ref || repository?.data;
+    if (!revision) return null;
+
+    const result = await this.fetcher.fetch(`${this.getRepositoryUrl()}/commit/${encodeURIComponent(revision)}`, 0, (data) => String(data.hash));
+    return result && { data: result.data, stale: result.stale || !!repository?.stale };
+  }
+
+  protected getRawUrl(file: RemoteTreeFile, ref: string): string {
+    return `${this.webUrl}/${this.workspace}/${this.repo}/raw/${encodeURIComponent(ref)}/${file.path.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  protected getApiHeaders(etag?: string): Record<string, string> {
+    return {
+      'Accept': 'application/json',
+      'User-Agent': 'agent-rules-mcp',
+      ...(this.token && { 'Authorization': this.token }),
+      ...(etag && { 'If-None-Match': etag })
+    };
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.token ? { Authorization: this.token } : {};
+  }
+
+  private getRepositoryUrl(): string {
+    return `${this.apiUrl}/repositories/${encodeURIComponent(this.workspace)}/${encodeURIComponent(this.repo)}`;
+  }
+
+  private getSourceUrl(ref: string, filePath: string): string {
+    return `${this.getRepositoryUrl()}/src/${encodeURIComponent(ref)}/${filePath.split('/').filter(Boolean).map(encodeURIComponent).join('/')}`;
+  }
+
+  getRepositoryInfo(): string {
+    return `${this.workspace}/${this.repo}/${this.path} on Bitbucket (${this.describeRef()})`;
+  }
+}
@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RuleManager } from './rule-manager.js';
+import { createRulePack } from './rule-pack.js';
+import { describeRevision } from './rule-diff.js';
+import { DEFAULT_MAX_RULE_FILE_SIZE, lintRuleSources, toSarif } from './rule-linter.js';
+import { EXPORT_TARGETS, isExportTarget } from './rule-export.js';
+import { InstallResult, installRules, syncRules } from './rule-install.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+import { createRuleSources, parseRuleSourceSpec } from './rule-source-factory.js';
+import { RuleSource } from './rule-source.js';
+import { RULES_CONFIG_SCHEMA, loadRulesConfig } from './rule-config.js';
+import { loadEnvVariables } from './rule-template.js';
+import { resolveEnabledTools } from './server.js';
+import { getWatchOptions } from './rule-watcher.js';
+import { DEFAULT_CACHE_TTL, DEFAULT_DIRECTORY_CACHE_TTL, getDefaultCacheDirectory, getTtlFromEnv, isDiskCacheEnabled } from './disk-cache.js';
+import { Logger } from './error-handler.js';
+
+export type CliCommand = (args: string[], getRuleManager: () => RuleManager) => Promise<number | void>;
+
+const VALUE_FLAGS = ['--config', '--rules-dir', '--source', '--pack', '--host', '--port', '--out', '--from', '--to', '--format', '--max-size'];
+
+export const getFlagValues = (args: string[], flag: string): string[] => args.flatMap((arg, index) => {
+  if (arg.startsWith(`${flag}=`)) return [arg.slice(flag.length + 1)];
+  return arg === flag && index + 1 < args.length ? [args[index + 1]] : [];
+});
+
+export const getFlagValue = (args: string[], flag: string): string | undefined => getFlagValues(args, flag)[0];
+
+export const getPositionalArgs = (args: string[]): string[] => args.filter((arg, index) => !arg.startsWith('-') && !(index > 0 && VALUE_FLAGS.includes(args[index - 1])));
+
+const runSnapshot: CliCommand = async (args, getRuleManager) => {
+  const ruleManager = getRuleManager();
+  const outFile = path.resolve(getFlagValue(args, '--out') || 'rules.pack.json');
+  Logger.info(`Creating rule pack from ${ruleManager.getRulesDirectory()}`);
+
+  const domains = await ruleManager.listAvailableDomains();
+  const pack = await createRulePack(ruleManager, 'agent-rules-mcp v1.3.5');
+  const packed = new Set(pack.rules.map(entry => entry.domain));
+  const missing = domains.map(d => d.domain).filter(domain => !packed.has(domain));
+
+  if (pack.rules.length === 0) throw new Error('No rules could be fetched, rule pack not written');
+  if (missing.length > 0) throw new Error(`Failed to fetch ${missing.join(', ')}, rule pack not written`);
+
+  const stale = pack.rules.filter(entry => domains.find(d => d.domain === entry.domain)?.stale).map(entry => entry.domain);
+  if (stale.length > 0) Logger.warn('Some rules were packed from a stale cache', { domains: stale });
+
+  await fs.writeFile(outFile, `${JSON.stringify(pack, null, 2)}\n`, 'utf-8');
+  Logger.info(`✓ Wrote ${pack.rules.length} rule${pack.rules.length === 1 ? '' : 's'} to ${outFile}`);
+};
+
+const runDiff: CliCommand = async (args, getRuleManager) => {
+  const [, domain] = getPositionalArgs(args);
+  const from = getFlagValue(args, '--from');
+  const sinceLastFetch = args.includes('--since-last-fetch');
+  if (!domain || (!from && !sinceLastFetch)) throw new Error('Usage: agent-rules-mcp diff <domain> (--from <ref|date> [--to <ref|date>] | --since-last-fetch) [--json]');
+
+  const result = await getRuleManager().diffRule(domain, { from, to: getFlagValue(args, '--to'), sinceLastFetch });
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log(`${result.domain}: ${result.status} (+${result.additions} -${result.deletions}) ${describeRevision(result.from)} -> ${describeRevision(result.to)}`);
+
+  if (result.commits.length > 0) {
+    console.log(`\nCommits touching ${result.path}:`);
+    result.commits.forEach(commit => console.log(`  ${[commit.sha.slice(0, 7), commit.date?.slice(0, 10), commit.author && `${commit.author}:`, commit.message].filter(Boolean).join(' ')}`));
+  }
+
+  if (result.diff) console.log(`\n${result.diff}`);
+};
+
+const isDirectory = (target: string): Promise<boolean> => fs.stat(target).then(stats => stats.isDirectory(), () => false);
+
+const resolveLintSource = async (target: string): Promise<RuleSource> => {
+  if (await isDirectory(target)) return new LocalDirectoryFileReader(target);
+  return parseRuleSourceSpec(target.includes(':') ? target : `github:${target}`);
+};
+
+const runLint: CliCommand = async (args, getRuleManager) => {
+  const format = getFlagValue(args, '--format') || 'json';
+  const maxSize = getFlagValue(args, '--max-size');
+  const maxFileSize = maxSize === undefined ? DEFAULT_MAX_RULE_FILE_SIZE : Number(maxSize);
+  if (format !== 'json' && format !== 'sarif') throw new Error(`Unknown format ${format}: use json or sarif`);
+  if (!Number.isInteger(maxFileSize) || maxFileSize < 1) throw new Error('--max-size must be a positive number of bytes');
+
+  const targets = getPositionalArgs(args).slice(1);
+  const sources = targets.length > 0 ? await Promise.all(targets.map(resolveLintSource)) : getRuleManager().getSources();
+  const report = await lintRuleSources(sources, { maxFileSize });
+
+  console.log(JSON.stringify(format === 'sarif' ? toSarif(report, '1.3.5') : report, null, 2));
+  Logger.info(`Checked ${report.rulesChecked} rule${report.rulesChecked === 1 ? '' : 's'}: ${report.errors} error${report.errors === 1 ? '' : 's'}, ${report.warnings} warning${report.warnings === 1 ? '' : 's'}`);
+  return report.valid ? 0 : 1;
+};
+
+const runExport: CliCommand = async (args, getRuleManager) => {
+  const [, target, ...domains] = getPositionalArgs(args);
+  if (!isExportTarget(target)) throw new Error(`Usage: agent-rules-mcp export <${EXPORT_TARGETS.join('|')}> [domains...] [--out <dir>] [--dry-run]`);
+
+  const outDir = path.resolve(getFlagValue(args, '--out') || '.');
+  const { files, warnings } = await getRuleManager().exportRules(target, domains);
+  warnings.forEach(warning => Logger.warn(warning));
+
+  if (args.includes('--dry-run')) {
+    files.forEach(file => console.log(`==> ${file.path} <==\n${file.content}`));
+    return;
+  }
+
+  for (const file of files) {
+    const filePath = path.join(outDir, file.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.content, 'utf-8');
+    Logger.info(`✓ Wrote ${path.relative(process.cwd(), filePath) || filePath}`);
+  }
+};
+
+const reportInstall = (result: InstallResult): number => {
+  result.warnings.forEach(warning => Logger.warn(warning));
+  result.files.forEach(file => console.log(`${file.status.padEnd(9)} ${file.path}${file.reason ? ` (${file.reason})` : ''}`));
+
+  const failed = result.files.filter(file => file.status === 'conflict' || file.status === 'missing');
+  if (result.dryRun) Logger.info('Dry run: no files were written');
+  if (failed.length > 0) Logger.warn(`${failed.length} file${failed.length === 1 ? ' was' : 's were'} left untouched; rerun with --force to overwrite local edits`);
+  return failed.length > 0 ? 1 : 0;
+};
+
+const runInstall: CliCommand = async (args, getRuleManager) => {
+  const [, target, ...domains] = getPositionalArgs(args);
+  if (!isExportTarget(target) || domains.length === 0) throw new Error(`Usage: agent-rules-mcp install <${EXPORT_TARGETS.join('|')}> <domains...> [--out <dir>] [--dry-run] [--force]`);
+
+  return reportInstall(await installRules(getRuleManager(), target, domains, { directory: getFlagValue(args, '--out'), dryRun: args.includes('--dry-run'), force: args.includes('--force') }));
+};
+
+const runSync: CliCommand = async (args, getRuleManager) =>
+  reportInstall(await syncRules(getRuleManager(), { dryRun: args.includes('--dry-run'), force: args.includes('--force') }));
+
+const resolveConfig = (args: string[]) => {
+  const { file, config } = loadRulesConfig(getFlagValue(args, '--config'));
+  const sources = createRuleSources({ rulesDirectory: getFlagValue(args, '--rules-dir'), sources: getFlagValues(args, '--source'), pack: getFlagValue(args, '--pack'), config });
+  const watch = getWatchOptions(config.watch);
+
+  return {
+    file: file ?? null,
+    sources: sources.map(source => ({ name: source.name, location: source.getRepositoryInfo(), authenticated: source.hasAuthToken() })),
+    tools: resolveEnabledTools(config.tools),
+    cache: {
+      directory: config.cache?.directory ?? getDefaultCacheDirectory(),
+      disk: config.cache?.disk ?? isDiskCacheEnabled(),
+      ttl: config.cache?.ttl ?? getTtlFromEnv('RULES_CACHE_TTL', DEFAULT_CACHE_TTL) / 1000,
+      directoryTtl: config.cache?.directoryTtl ?? getTtlFromEnv('RULES_DIRECTORY_CACHE_TTL', DEFAULT_DIRECTORY_CACHE_TTL) / 1000
+    },
+    watch: { enabled: watch.enabled, pollInterval: watch.pollInterval / 1000, debounce: watch.debounce / 1000 },
+    ...(config.extensions && { extensions: config.extensions }),
+    ...(config.skip && { skip: config.skip }),
+    variables: { ...config.variables, ...loadEnvVariables() }
+  };
+};
+
+const runConfig: CliCommand = async (args) => {
+  const [, subcommand] = getPositionalArgs(args);
+  if (subcommand === 'schema') {
+    console.log(JSON.stringify(RULES_CONFIG_SCHEMA, null, 2));
+    return;
+  }
+  if (subcommand !== 'check') throw new Error('Usage: agent-rules-mcp config <check|schema> [--config <file>]');
+
+  try {
+    console.log(JSON.stringify(resolveConfig(args), null, 2));
+  } catch (error) {
+    console.error(`✗ ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+};
+
+export const CLI_COMMANDS = new Map<string, CliCommand>([
+  ['snapshot', runSnapshot],
+  ['diff', runDiff],
+  ['lint', runLint],
+  ['export', runExport],
+  ['install', runInstall],
+  ['sync', runSync],
+  ['config', runConfig]
+]);
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskCache, getTtlFromEnv } from './disk-cache.js';
+
+describe('DiskCache', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-cache-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances', async () => {
+        await new DiskCache(directory).set('https://api.github.com/x', { data: { content: 'hi' }, etag: '"abc"', fetchedAt: 1 });
+
+        const entry = await new DiskCache(directory).get<{ content: string }>('https://api.github.com/x');
+
+        expect(entry?.data.content).toBe('hi');
+        expect(entry?.etag).toBe('"abc"');
+        expect(await new DiskCache(directory).get('https://api.github.com/y')).toBeNull();
+    });
+
+    it('should delete and clear entries', async () => {
+        const cache = new DiskCache(directory);
+        await cache.set('a', { data: 1, fetchedAt: 1 });
+        await cache.set('b', { data: 2, fetchedAt: 1 });
+
+        await cache.delete('a');
+        expect(await cache.get('a')).toBeNull();
+
+        await cache.clear();
+        expect(await cache.get('b')).toBeNull();
+    });
+
+    it('should ignore corrupt entries', async () => {
+        const cache = new DiskCache(directory);
+        await cache.set('a', { data: 1, fetchedAt: 1 });
+        const [file] = await fs.readdir(directory);
+        await fs.writeFile(path.join(directory, file), '{not json');
+
+        expect(await cache.get('a')).toBeNull();
+    });
+
+    it('should read TTLs in seconds from the environment', () => {
+        process.env.TEST_CACHE_TTL = '30';
+        expect(getTtlFromEnv('TEST_CACHE_TTL', 5)).toBe(30000);
+
+        process.env.TEST_CACHE_TTL = 'soon';
+        expect(getTtlFromEnv('TEST_CACHE_TTL', 5)).toBe(5);
+
+        delete process.env.TEST_CACHE_TTL;
+        expect(getTtlFromEnv('TEST_CACHE_TTL', 5)).toBe(5);
+    });
+});
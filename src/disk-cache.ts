@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { Logger } from './error-handler.js';
+
+export interface DiskCacheEntry<T = unknown> {
+  data: T;
+  etag?: string;
+  sha?: string;
+  fetchedAt: number;
+}
+
+export const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+export const DEFAULT_DIRECTORY_CACHE_TTL = 10 * 60 * 1000;
+
+export const getTtlFromEnv = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    Logger.warn(`Ignoring invalid ${name} value, expected a number of seconds`, { value });
+    return fallback;
+  }
+
+  return seconds * 1000;
+};
+
+export const getDefaultCacheDirectory = (): string => {
+  if (process.env.RULES_CACHE_DIR) return path.resolve(process.env.RULES_CACHE_DIR);
+
+  const base = process.env.XDG_CACHE_HOME
+    || (process.platform === 'win32' && process.env.LOCALAPPDATA)
+    || (process.platform === 'darwin' ? path.join(os.homedir(), 'Library', 'Caches') : path.join(os.homedir(), '.cache'));
+  return path.join(base, 'agent-rules-mcp');
+};
+
+export const isDiskCacheEnabled = (): boolean => !['0', 'false', 'off', 'no'].includes((process.env.RULES_DISK_CACHE || '').trim().toLowerCase());
+
+export class DiskCache {
+  readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || getDefaultCacheDirectory();
+  }
+
+  static fromEnv(): DiskCache | null {
+    return isDiskCacheEnabled() ? new DiskCache() : null;
+  }
+
+  async get<T>(key: string): Promise<DiskCacheEntry<T> | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.getEntryPath(key), 'utf-8')) as DiskCacheEntry<T> & { key: string };
+      return entry.key === key ? entry : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') Logger.warn('Ignoring unreadable disk cache entry', { key, error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
+  async set<T>(key: string, entry: DiskCacheEntry<T>): Promise<void> {
+    const entryPath = this.getEntryPath(key);
+    const tempPath = `${entryPath}.${randomUUID()}.tmp`;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify({ key, ...entry }), 'utf-8');
+      await fs.rename(tempPath, entryPath);
+    } catch (error) {
+      Logger.warn('Failed to write disk cache entry', { key, error: error instanceof Error ? error.message : error });
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getEntryPath(key), { force: true }).catch(() => undefined);
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
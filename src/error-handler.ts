@@ -89,10 +89,10 @@ export class ErrorHandler {
         ['Provide a valid domain name', 'Use list_rules to see available domains', 'Domain names should be alphanumeric with hyphens or underscores']);
     }
 
-    const sanitizedDomain = domain.replace(/[^a-zA-Z0-9\-_]/g, '');
-    if (sanitizedDomain !== domain) {
-      return this.createMcpError(ErrorCode.InvalidParams, 'Invalid domain name: only alphanumeric characters, hyphens, and underscores are allowed', AgentRulesErrorCode.INVALID_DOMAIN_NAME,
-        ['Use only letters, numbers, hyphens (-), and underscores (_)', 'Remove special characters and spaces', 'Examples: "react", "next-js", "security_rules"']);
+    const sanitizedDomain = domain.replace(/[^a-zA-Z0-9.\-_/]/g, '');
+    if (sanitizedDomain !== domain || domain.split('/').some(segment => segment === '' || segment === '.' || segment === '..')) {
+      return this.createMcpError(ErrorCode.InvalidParams, 'Invalid domain name: only alphanumeric characters, periods, hyphens, underscores, and slashes between folder names are allowed', AgentRulesErrorCode.INVALID_DOMAIN_NAME,
+        ['Use only letters, numbers, periods (.), hyphens (-), and underscores (_)', 'Separate nested folders with a single slash (/)', 'Remove special characters and spaces', 'Examples: "react", "next-js", "security_rules", "next.js", "frontend/react"']);
     }
 
     return this.createMcpError(ErrorCode.InvalidParams, `Invalid domain: ${domain}`, AgentRulesErrorCode.INVALID_DOMAIN_NAME,
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { isCommitSha, isSemverRange, satisfiesVersion, selectTag } from './git-ref.js';
+
+describe('git refs', () => {
+    it('should distinguish commit SHAs, semver ranges and branch names', () => {
+        expect(isCommitSha('0123456789abcdef0123456789abcdef01234567')).toBe(true);
+        expect(isCommitSha('main')).toBe(false);
+        expect(isSemverRange('^1.2')).toBe(true);
+        expect(isSemverRange('v1.2.3')).toBe(true);
+        expect(isSemverRange('main')).toBe(false);
+        expect(isSemverRange('release/1.x')).toBe(false);
+        expect(isSemverRange('')).toBe(false);
+    });
+
+    it('should select the highest tag satisfying a range', () => {
+        const tags = [{ name: 'v1.0.0' }, { name: 'v1.4.2' }, { name: '2.0.0' }, { name: 'nightly' }, { name: 'v2.1.0-beta.1' }];
+
+        expect(selectTag(tags, '^1.0')?.name).toBe('v1.4.2');
+        expect(selectTag(tags, '>=1.0')?.name).toBe('2.0.0');
+        expect(selectTag(tags, '1.0.0')?.name).toBe('v1.0.0');
+        expect(selectTag(tags, '^3.0')).toBeUndefined();
+    });
+
+    it('should check declared rule versions against a range', () => {
+        expect(satisfiesVersion('2.1', '^2.0')).toBe(true);
+        expect(satisfiesVersion('v1.0', '^2.0')).toBe(false);
+        expect(satisfiesVersion(undefined, '*')).toBe(false);
+    });
+});
@@ -0,0 +1,23 @@
+import semver from 'semver';
+
+export const isCommitSha = (ref: string): boolean => /^[0-9a-f]{40}$/i.test(ref);
+
+export const isSemverRange = (ref: string): boolean => ref.trim() !== '' && !isCommitSha(ref) && semver.validRange(ref, { loose: true }) !== null;
+
+export const selectTag = <T extends { name: string }>(tags: T[], range: string): T | undefined => {
+  const versions = new Map<string, T>();
+  for (const tag of tags) {
+    const version = semver.valid(semver.clean(tag.name, { loose: true }) || tag.name, { loose: true });
+    if (version && !versions.has(version)) versions.set(version, tag);
+  }
+
+  const best = semver.maxSatisfying(Array.from(versions.keys()), range, { loose: true });
+  return best ? versions.get(best) : undefined;
+};
+
+export const satisfiesVersion = (version: string | undefined, range: string): boolean => {
+  const coerced = version ? semver.coerce(version) : null;
+  return !!coerced && semver.satisfies(coerced, range, { loose: true });
+};
+
+export const isValidVersionRange = (range: string): boolean => semver.validRange(range, { loose: true }) !== null;
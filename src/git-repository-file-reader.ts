@@ -0,0 +1,172 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { BaseRuleFileReader, RuleFile, RuleFileEntry, RuleFileOptions, SourceStatus, UpstreamError } from './rule-source.js';
+import { DEFAULT_DIRECTORY_CACHE_TTL, getDefaultCacheDirectory, getTtlFromEnv } from './disk-cache.js';
+import { Logger } from './error-handler.js';
+
+export interface GitReaderOptions extends RuleFileOptions {
+  cacheDirectory?: string;
+  directoryCacheTtl?: number;
+}
+
+interface GitTreeFile {
+  path: string;
+  sha: string;
+  size?: number;
+}
+
+const execFileAsync = promisify(execFile);
+const GIT_TIMEOUT = 120 * 1000;
+
+// Clone URLs often carry a token as userinfo; it must not reach names, logs or status output.
+const stripCredentials = (url: string): string => url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^/@]*@/i, '$1');
+
+const runGit = async (args: string[], cwd: string): Promise<string> => {
+  const { stdout } = await execFileAsync('git', args, { cwd, timeout: GIT_TIMEOUT, maxBuffer: 64 * 1024 * 1024, env: { ...process.env, GIT_TERMINAL_PROMPT: '0' } });
+  return stdout;
+};
+
+// Fetches a shallow copy of the ref into a checkout under the cache directory and reads rules
+// from its working tree. When the remote is unreachable the last checkout is served as stale.
+export class GitRepositoryFileReader extends BaseRuleFileReader {
+  readonly name: string;
+  readonly remote = true;
+  private readonly url: string;
+  private readonly displayUrl: string;
+  private readonly ref: string;
+  private readonly path: string;
+  private readonly options: GitReaderOptions;
+  private readonly checkoutDirectory: string;
+  private readonly directoryCacheTtl: number;
+  private checkout: { commit: string, files: Map<string, GitTreeFile>, entries: RuleFileEntry[], timestamp: number, stale: boolean } | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private lastError: UpstreamError | undefined;
+
+  constructor(url: string, ref = '', rulesPath = '', options: GitReaderOptions = {}) {
+    super(options);
+    this.url = url;
+    this.displayUrl = stripCredentials(url);
+    this.ref = ref;
+    this.path = rulesPath.replace(/^\/+|\/+$/g, '');
+    this.options = options;
+
+    if (!url || url.startsWith('-')) throw new Error(`Invalid git URL "${url}"`);
+    if (ref.startsWith('-')) throw new Error(`Invalid git ref "${ref}"`);
+    this.name = `git:${this.displayUrl}${this.ref || this.path ? `#${this.ref}` : ''}${this.path ? `:${this.path}` : ''}`;
+    this.checkoutDirectory = path.join(options.cacheDirectory ?? getDefaultCacheDirectory(), 'git', createHash('sha256').update(`${this.url}#${this.ref}`).digest('hex').slice(0, 16));
+    this.directoryCacheTtl = options.directoryCacheTtl ?? getTtlFromEnv('RULES_DIRECTORY_CACHE_TTL', DEFAULT_DIRECTORY_CACHE_TTL);
+  }
+
+  withRef(ref: string): GitRepositoryFileReader {
+    return new GitRepositoryFileReader(this.url, ref, this.path, this.options);
+  }
+
+  async readRuleFile(domain: string): Promise<string> {
+    return (await this.readRuleFileDetails(domain)).content;
+  }
+
+  async readRuleFileDetails(domain: string): Promise<RuleFile> {
+    const checkout = await this.sync();
+    const file = checkout.files.get(domain);
+    if (!file) throw new Error(`Rule file not found for domain: ${domain} (not present under ${this.path || 'the repository root'} of ${this.displayUrl})`);
+
+    const content = await this.readCheckoutFile(file.path);
+    return { content, path: file.path, sha: file.sha, commit: checkout.commit, ...(checkout.stale && { stale: true }) };
+  }
+
+  async listRuleFiles(): Promise<string[]> {
+    return Array.from((await this.sync()).files.keys());
+  }
+
+  async listRuleFileEntries(): Promise<RuleFileEntry[]> {
+    return (await this.sync()).entries;
+  }
+
+  async ruleExists(domain: string): Promise<boolean> {
+    try {
+      return (await this.sync()).files.has(domain);
+    } catch { return false; }
+  }
+
+  async getRevision(): Promise<string | undefined> {
+    return (await this.sync().catch(() => null))?.commit;
+  }
+
+  async pollRevision(): Promise<string | undefined> {
+    this.invalidate();
+    return this.getRevision();
+  }
+
+  private async sync(): Promise<NonNullable<GitRepositoryFileReader['checkout']>> {
+    if (this.checkout && (Date.now() - this.checkout.timestamp) < this.directoryCacheTtl) return this.checkout;
+
+    this.syncPromise ??= this.fetchCheckout().finally(() => { this.syncPromise = null; });
+    await this.syncPromise;
+    return this.checkout!;
+  }
+
+  private async fetchCheckout(): Promise<void> {
+    const directory = this.checkoutDirectory;
+    let stale = false;
+
+    try {
+      if (!(await fs.stat(path.join(directory, '.git')).then(() => true, () => false))) {
+        await fs.mkdir(directory, { recursive: true });
+        await runGit(['init', '--quiet'], directory);
+        await runGit(['remote', 'add', 'origin', '--', this.url], directory);
+      }
+      await runGit(['fetch', '--quiet', '--depth', '1', 'origin', this.ref || 'HEAD'], directory);
+      await runGit(['checkout', '--quiet', '--force', '--detach', 'FETCH_HEAD'], directory);
+    } catch (error) {
+      const message = (error instanceof Error ? error.message.trim() : String(error)).split(this.url).join(this.displayUrl);
+      this.lastError = { time: new Date().toISOString(), message };
+      if (!(await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], directory).catch(() => ''))) {
+        throw new Error(`Failed to fetch ${this.displayUrl}${this.ref ? ` at ${this.ref}` : ''}: ${message}`);
+      }
+      Logger.warn(`Serving the last checkout of ${this.displayUrl} because fetching failed`, { error: message });
+      stale = true;
+    }
+
+    const commit = (await runGit(['rev-parse', 'HEAD'], directory)).trim();
+    const tree = (await runGit(['ls-tree', '-r', '--long', '-z', 'HEAD', '--', ...(this.path ? [this.path] : [])], directory)).split('\0').filter(Boolean).flatMap((line) => {
+      const match = line.match(/^100(?:644|755) blob ([0-9a-f]+)\s+(\d+)\t(.+)$/);
+      return match ? [{ path: match[3], sha: match[1], size: Number(match[2]) }] : [];
+    });
+
+    this.checkout = { commit, ...this.indexRuleFiles(tree, this.path), timestamp: Date.now(), stale };
+  }
+
+  // Symlinks are not indexed, but the working tree is still checked so a rule can never be read from outside the checkout.
+  private async readCheckoutFile(relativePath: string): Promise<string> {
+    const filePath = path.join(this.checkoutDirectory, relativePath);
+    const [root, resolved, stats] = await Promise.all([fs.realpath(this.checkoutDirectory), fs.realpath(filePath), fs.lstat(filePath)]);
+    if (stats.isSymbolicLink() || !stats.isFile() || !resolved.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Refusing to read ${relativePath} from ${this.displayUrl}: not a regular file inside the checkout`);
+    }
+
+    return fs.readFile(resolved, 'utf-8');
+  }
+
+  hasAuthToken(): boolean { return false; }
+
+  getStatus(): Partial<SourceStatus> {
+    return { auth: 'none', ref: this.ref || 'default branch', ...(this.checkout && { commit: this.checkout.commit }), ...(this.checkout?.stale && { stale: true }), ...(this.lastError && { lastError: this.lastError }) };
+  }
+
+  invalidate(): void {
+    if (this.checkout) this.checkout.timestamp = 0;
+  }
+
+  async dispose(): Promise<void> {
+    await this.syncPromise?.catch(() => undefined);
+    this.checkout = null;
+    await fs.rm(this.checkoutDirectory, { recursive: true, force: true });
+  }
+
+  getRepositoryInfo(): string {
+    return `${this.displayUrl}${this.path ? ` (${this.path})` : ''} (ref: ${this.ref || 'default branch'}${this.checkout ? ` at ${this.checkout.commit.slice(0, 12)}` : ''})`;
+  }
+}
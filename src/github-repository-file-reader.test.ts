@@ -1,5 +1,13 @@
-import { describe, it, expect } from 'vitest';
-import { GitHubRepositoryFileReader } from './github-repository-file-reader.js';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubReaderOptions, GitHubRepositoryFileReader } from './github-repository-file-reader.js';
+import { DiskCache } from './disk-cache.js';
+import { HttpClient } from './http-client.js';
 
 describe('GitHubRepositoryFileReader', () => {
     describe('isRuleFile', () => {
@@ -144,4 +152,208 @@ describe('GitHubRepositoryFileReader', () => {
             expect(domains.length).toBe(2); // Should deduplicate
         });
     });
-});
\ No newline at end of file
+
+    describe('mock GitHub API', () => {
+        let server: Server;
+        let directory: string;
+        let failing = false;
+        let requests: Array<{ url: string; status: number }> = [];
+        const originalApiUrl = process.env.GITHUB_API_URL;
+
+        const shaOf = (content: string) => createHash('sha1').update(content).digest('hex');
+        const commits: Record<string, Record<string, string>> = {
+            [shaOf('commit-1')]: { 'rules/react.md': '---\nversion: 1.0.0\n---\n# React v1' },
+            [shaOf('commit-2')]: { 'rules/react.md': '---\nversion: 1.1.0\n---\n# React v1.1' },
+            [shaOf('commit-3')]: {
+                'rules/frontend/react.mdc': '# Frontend React',
+                'rules/react.md': '# React',
+                'rules/README.md': '# Readme',
+                'docs/guide.md': '# Guide'
+            }
+        };
+        const head = shaOf('commit-3');
+        const history = [head, shaOf('commit-2'), shaOf('commit-1')];
+        const commitDates: Record<string, string> = { [shaOf('commit-1')]: '2024-01-01T00:00:00Z', [shaOf('commit-2')]: '2024-02-01T00:00:00Z', [head]: '2024-03-01T00:00:00Z' };
+        let mainCommit = head;
+        const tags = [{ name: 'v1.0.0', commit: { sha: shaOf('commit-1') } }, { name: 'v1.1.0', commit: { sha: shaOf('commit-2') } }, { name: 'v2.0.0', commit: { sha: head } }];
+        const treeUrl = (commit: string) => `/repos/owner/repo/git/trees/${commit}?recursive=1`;
+        const refUrl = (ref: string) => `/repos/owner/repo/commits?sha=${ref}&per_page=1`;
+
+        const createReader = (options: GitHubReaderOptions = {}, ref = 'main') => new GitHubRepositoryFileReader('owner', 'repo', 'rules', ref, { diskCache: null, httpClient: new HttpClient({ retries: 0 }), ...options });
+
+        beforeAll(async () => {
+            server = createServer((req, res) => {
+                const url = new URL(req.url!, 'http://localhost');
+                const respond = (status: number, body?: unknown, headers: Record<string, string> = {}) => {
+                    requests.push({ url: req.url!, status });
+                    res.writeHead(status, { 'Content-Type': 'application/json', 'X-RateLimit-Limit': '60', 'X-RateLimit-Remaining': String(60 - requests.length), 'X-RateLimit-Reset': '1700000000', ...headers }).end(body === undefined ? undefined : JSON.stringify(body));
+                };
+                const respondWithETag = (body: unknown) => {
+                    const etag = `"${shaOf(JSON.stringify(body))}"`;
+                    return req.headers['if-none-match'] === etag ? respond(304) : respond(200, body, { ETag: etag });
+                };
+
+                if (failing) return respond(503, { message: 'Service unavailable' });
+
+                if (url.pathname === '/repos/owner/repo/commits') {
+                    const ref = url.searchParams.get('sha')!;
+                    const commit = ref === 'main' ? mainCommit : tags.find(tag => tag.name === ref)?.commit.sha ?? (commits[ref] ? ref : undefined);
+                    if (!commit) return respond(404, { message: 'No commit found' });
+
+                    const filePath = url.searchParams.get('path');
+                    const since = url.searchParams.get('since');
+                    const until = url.searchParams.get('until');
+                    const matching = history.slice(history.indexOf(commit))
+                        .filter(sha => (!since || Date.parse(commitDates[sha]) >= Date.parse(since)) && (!until || Date.parse(commitDates[sha]) <= Date.parse(until)))
+                        .filter(sha => !filePath || commits[sha][filePath] !== commits[history[history.indexOf(sha) + 1]]?.[filePath])
+                        .slice(0, Number(url.searchParams.get('per_page') || 30));
+                    return respondWithETag(matching.map(sha => ({ sha, commit: { message: `Update ${sha.slice(0, 7)}\n\nDetails`, author: { name: 'Rules Bot' }, committer: { date: commitDates[sha] } } })));
+                }
+
+                if (url.pathname === '/repos/owner/repo/tags') return respondWithETag(url.searchParams.get('page') === '1' ? tags : []);
+
+                const treeMatch = url.pathname.match(/^\/repos\/owner\/repo\/git\/trees\/([0-9a-f]{40})$/);
+                if (treeMatch && commits[treeMatch[1]]) {
+                    return respondWithETag({ sha: treeMatch[1], tree: Object.entries(commits[treeMatch[1]]).map(([path, content]) => ({ path, type: 'blob', sha: shaOf(content) })), truncated: false });
+                }
+
+                const blob = Object.values(commits).flatMap(files => Object.values(files)).find(content => url.pathname === `/repos/owner/repo/git/blobs/${shaOf(content)}`);
+                if (blob) return respond(200, { content: Buffer.from(blob).toString('base64'), encoding: 'base64' });
+
+                respond(404, { message: 'Not Found' });
+            });
+
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+            process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            if (originalApiUrl === undefined) delete process.env.GITHUB_API_URL;
+            else process.env.GITHUB_API_URL = originalApiUrl;
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        });
+
+        beforeEach(async () => {
+            failing = false;
+            mainCommit = head;
+            requests = [];
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-github-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(directory, { recursive: true, force: true });
+        });
+
+        it('should list nested folders as namespaced domains with a single tree request', async () => {
+            const domains = await createReader().listRuleFiles();
+
+            expect(domains).toEqual(['frontend/react', 'react']);
+            expect(requests.map(r => r.url)).toEqual([refUrl('main'), treeUrl(head)]);
+        });
+
+        it('should read files by their known path and blob SHA without probing', async () => {
+            const reader = createReader();
+            const file = await reader.readRuleFileDetails('frontend/react');
+
+            expect(file).toEqual({ content: '# Frontend React', path: 'rules/frontend/react.mdc', sha: shaOf('# Frontend React'), commit: head });
+            await expect(reader.readRuleFile('missing')).rejects.toThrow('Rule file not found for domain: missing');
+            expect(requests.map(r => r.url)).toEqual([refUrl('main'), treeUrl(head), `/repos/owner/repo/git/blobs/${shaOf('# Frontend React')}`]);
+        });
+
+        it('should revalidate the ref with If-None-Match and reuse the cached tree and blobs', async () => {
+            const options = { diskCache: new DiskCache(directory), directoryCacheTtl: 0 };
+            await createReader(options).readRuleFile('react');
+            requests = [];
+
+            const content = await createReader(options).readRuleFile('react');
+
+            expect(content).toBe('# React');
+            expect(requests).toEqual([{ url: refUrl('main'), status: 304 }]);
+        });
+
+        it('should serve stale cached content when GitHub fails', async () => {
+            const options = { diskCache: new DiskCache(directory), directoryCacheTtl: 0, fileCacheTtl: 0 };
+            await createReader(options).readRuleFile('react');
+            failing = true;
+
+            const reader = createReader(options);
+
+            expect(await reader.listRuleFiles()).toEqual(['frontend/react', 'react']);
+            expect(await reader.readRuleFileDetails('react')).toMatchObject({ content: '# React', stale: true });
+        });
+
+        it('should pin to the highest tag satisfying a semver range', async () => {
+            const reader = createReader({}, '^1.0');
+
+            expect(await reader.readRuleFileDetails('react')).toMatchObject({ content: '---\nversion: 1.1.0\n---\n# React v1.1', commit: shaOf('commit-2') });
+            expect(await reader.listRuleFiles()).toEqual(['react']);
+            await expect(createReader({}, '^3.0').listRuleFiles()).rejects.toThrow('No tag in owner/repo satisfies ^3.0');
+        });
+
+        it('should report the resolved tag, rate limit and last error in its status', async () => {
+            const reader = createReader({}, '^1.0');
+            await reader.readRuleFile('react');
+
+            expect(reader.getStatus()).toEqual({
+                auth: 'anonymous', ref: '^1.0', resolvedRef: 'v1.1.0', commit: shaOf('commit-2'),
+                rateLimit: { limit: 60, remaining: 57, resetAt: '2023-11-14T22:13:20.000Z' }
+            });
+
+            failing = true;
+            reader.invalidate();
+            await reader.listRuleFiles();
+            expect(reader.getStatus()).toMatchObject({ stale: true, lastError: { message: 'GitHub API error: 503 Service Unavailable' } });
+        });
+
+        it('should revalidate cached listings after being invalidated', async () => {
+            const reader = createReader({ diskCache: new DiskCache(directory) });
+            expect(await reader.listRuleFiles()).toEqual(['frontend/react', 'react']);
+
+            mainCommit = shaOf('commit-2');
+            expect(await reader.listRuleFiles()).toEqual(['frontend/react', 'react']);
+            reader.invalidate();
+            expect(await reader.listRuleFiles()).toEqual(['react']);
+        });
+
+        it('should read a rule at another ref without touching the configured one', async () => {
+            const reader = createReader();
+            const pinned = reader.withRef(shaOf('commit-1'));
+
+            expect(pinned.name).toBe(`github:owner/repo/rules@${shaOf('commit-1')}`);
+            expect(await pinned.readRuleFileDetails('react')).toMatchObject({ content: '---\nversion: 1.0.0\n---\n# React v1', commit: shaOf('commit-1') });
+            expect(requests.map(r => r.url)).not.toContain(refUrl(shaOf('commit-1')));
+            expect(await reader.readRuleFile('react')).toBe('# React');
+        });
+
+        it('should diff a rule between two tags with the commits that touched it', async () => {
+            const history = await createReader().getRuleHistory('react', { from: 'v1.0.0', to: 'v2.0.0' });
+
+            expect(history.path).toBe('rules/react.md');
+            expect(history.from).toEqual({ ref: 'v1.0.0', commit: shaOf('commit-1'), date: '2024-01-01T00:00:00Z', content: '---\nversion: 1.0.0\n---\n# React v1' });
+            expect(history.to).toMatchObject({ ref: 'v2.0.0', commit: head, content: '# React' });
+            expect(history.commits.map(c => c.sha)).toEqual([head, shaOf('commit-2')]);
+            expect(history.commits[0]).toMatchObject({ message: `Update ${head.slice(0, 7)}`, author: 'Rules Bot' });
+        });
+
+        it('should resolve timestamps to the last commit before them', async () => {
+            const history = await createReader().getRuleHistory('frontend/react', { from: '2024-01-15' });
+
+            expect(history.from).toMatchObject({ ref: '2024-01-15', commit: shaOf('commit-1'), content: null });
+            expect(history.to).toMatchObject({ ref: 'main', commit: head, content: '# Frontend React' });
+            expect(history.commits.map(c => c.sha)).toEqual([head]);
+        });
+
+        it('should diff against the commit of the last fetch', async () => {
+            const options = { diskCache: new DiskCache(directory) };
+            mainCommit = shaOf('commit-2');
+            await createReader(options).readRuleFile('react');
+            mainCommit = head;
+
+            const history = await createReader(options).getRuleHistory('react', { sinceLastFetch: true });
+
+            expect(history.from).toMatchObject({ commit: shaOf('commit-2'), content: '---\nversion: 1.1.0\n---\n# React v1.1' });
+            expect(history.to).toMatchObject({ commit: head, content: '# React' });
+            await expect(createReader().getRuleHistory('react', { sinceLastFetch: true })).rejects.toThrow('No previous fetch of react');
+        });
+    });
+});
@@ -1,91 +1,269 @@
-export interface RuleContent {
-  domain: string;
+import { BaseRuleFileReader, RuleCommit, RuleFile, RuleFileEntry, RuleHistory, RuleHistoryOptions, RuleFileOptions, SourceStatus } from './rule-source.js';
+import { DiskCache, DEFAULT_CACHE_TTL, DEFAULT_DIRECTORY_CACHE_TTL, getTtlFromEnv } from './disk-cache.js';
+import { isCommitSha, isSemverRange, selectTag } from './git-ref.js';
+import { RateLimitError, RevalidatingFetcher } from './remote-fetch.js';
+import { CircuitOpenError, HttpClient, getSharedHttpClient } from './http-client.js';
+
+export type { RuleContent, DomainInfo } from './rule-source.js';
+
+export interface GitHubReaderOptions extends RuleFileOptions {
+  apiUrl?: string;
+  token?: string;
+  httpClient?: HttpClient;
+  diskCache?: DiskCache | null;
+  fileCacheTtl?: number;
+  directoryCacheTtl?: number;
+}
+
+interface GitHubFile {
   content: string;
-  description?: string;
-  lastUpdated?: string;
-  version?: string;
+  path: string;
+  sha: string;
+}
+
+interface GitHubTreeFile {
+  path: string;
+  sha: string;
+  size?: number;
 }
 
-export interface DomainInfo {
-  domain: string;
-  description: string;
-  lastUpdated?: string;
+interface FetchRecord {
+  commit: string;
+  sha: string;
+  fetchedAt: string;
+  previousCommit?: string;
 }
 
-export class GitHubRepositoryFileReader {
+const isTimestamp = (value: string): boolean => /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+
+const toRuleCommit = (data: any): RuleCommit => ({
+  sha: data.sha,
+  message: String(data.commit?.message ?? '').split('\n')[0],
+  date: data.commit?.committer?.date ?? data.commit?.author?.date,
+  author: data.commit?.author?.name ?? data.author?.login,
+  url: data.html_url
+});
+
+export class GitHubRepositoryFileReader extends BaseRuleFileReader {
+  readonly name: string;
+  readonly remote = true;
   private owner: string;
   private repo: string;
   private path: string;
-  private branch: string;
+  private ref: string;
   private baseUrl: string;
   private token?: string;
   private directoryCache: { data: any[], timestamp: number } | null = null;
-  private readonly DIRECTORY_CACHE_TTL = 10 * 60 * 1000;
-  private rateLimitResetTime: number = 0;
-
-  constructor(owner?: string, repo?: string, path?: string, branch?: string) {
+  private fileIndex: { files: Map<string, GitHubTreeFile>, entries: RuleFileEntry[], timestamp: number, stale: boolean } | null = null;
+  private readonly diskCache: DiskCache | null;
+  private readonly fileCacheTtl: number;
+  private readonly directoryCacheTtl: number;
+  private resolvedCommit: { commit: string, timestamp: number, stale: boolean, tag?: string } | null = null;
+  private lastFetches: Map<string, FetchRecord> = new Map();
+  private readonly fetcher: RevalidatingFetcher;
+  private readonly options: GitHubReaderOptions;
+  private readonly httpClient: HttpClient;
+
+  constructor(owner?: string, repo?: string, path?: string, ref?: string, options: GitHubReaderOptions = {}) {
+    super(options);
     this.owner = owner || process.env.GITHUB_OWNER || '';
     this.repo = repo || process.env.GITHUB_REPO || '';
     this.path = path || process.env.GITHUB_PATH || '';
-    this.branch = branch || process.env.GITHUB_BRANCH || '';
-    this.baseUrl = process.env.GITHUB_API_URL || 'https://api.github.com';
-    this.token = process.env.GITHUB_TOKEN;
+    this.ref = ref || process.env.GITHUB_BRANCH || '';
+    this.baseUrl = (options.apiUrl || process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+    this.token = options.token ?? process.env.GITHUB_TOKEN;
+    this.options = options;
 
     if (!this.owner || !this.repo) throw new Error(`${!this.owner ? 'GITHUB_OWNER' : 'GITHUB_REPO'} environment variable is required`);
+    this.name = `github:${this.owner}/${this.repo}${this.path ? `/${this.path}` : ''}${this.ref ? `@${this.ref}` : ''}`;
+    this.diskCache = options.diskCache === undefined ? DiskCache.fromEnv() : options.diskCache;
+    this.fileCacheTtl = options.fileCacheTtl ?? getTtlFromEnv('RULES_CACHE_TTL', DEFAULT_CACHE_TTL);
+    this.directoryCacheTtl = options.directoryCacheTtl ?? getTtlFromEnv('RULES_DIRECTORY_CACHE_TTL', DEFAULT_DIRECTORY_CACHE_TTL);
+    this.httpClient = options.httpClient ?? getSharedHttpClient();
+    this.fetcher = new RevalidatingFetcher({ provider: 'GitHub', diskCache: this.diskCache, getHeaders: etag => this.getApiHeaders(etag), rateLimitStatuses: [403, 429], httpClient: this.httpClient });
   }
 
   async readRuleFile(domain: string): Promise<string> {
+    return (await this.readRuleFileDetails(domain)).content;
+  }
+
+  async readRuleFileDetails(domain: string): Promise<RuleFile> {
+    const file = await this.findIndexedFile(domain);
+    if (file === null) throw new Error(`Rule file not found for domain: ${domain} (not present under ${this.getDirectories().join(', ')} at ${this.ref || 'the default branch'})`);
+
+    const details = file ? await this.readIndexedFile(file) : await this.probeRuleFile(domain);
+    const commit = isCommitSha(this.ref) ? this.ref : this.resolvedCommit?.commit;
+    const result = { ...details, ...(commit && { commit }), ...((details.stale || this.resolvedCommit?.stale) && { stale: true }) };
+    await this.recordFetch(domain, result);
+    return result;
+  }
+
+  async getRuleHistory(domain: string, options: RuleHistoryOptions = {}): Promise<RuleHistory> {
+    const to = await this.resolveHistoryPoint(options.to);
+    let fromRef = options.from;
+
+    if (options.sinceLastFetch) {
+      const record = await this.getLastFetch(domain);
+      if (!record) throw new Error(`No previous fetch of ${domain} from ${this.name} is recorded`);
+      fromRef = record.commit !== to.commit ? record.commit : record.previousCommit ?? record.commit;
+    }
+
+    if (!fromRef) throw new Error('A from ref or timestamp is required unless sinceLastFetch is set');
+    const from = await this.resolveHistoryPoint(fromRef);
+
+    const [fromFile, toFile] = await Promise.all([from, to].map(point => this.withRef(point.commit).readRuleFileDetails(domain).catch((error) => {
+      if (error instanceof Error && error.message.startsWith('Rule file not found')) return null;
+      throw error;
+    })));
+
+    const path = toFile?.path ?? fromFile?.path;
+    const commits = path ? await this.fetchFileCommits(path, from, to) : [];
+    return { ...(path && { path }), from: { ...from, content: fromFile?.content ?? null }, to: { ...to, content: toFile?.content ?? null }, commits };
+  }
+
+  async getLastFetch(domain: string): Promise<FetchRecord | null> {
+    return this.lastFetches.get(domain) ?? (await this.diskCache?.get<FetchRecord>(`${this.name}#fetched:${domain}`))?.data ?? null;
+  }
+
+  private async recordFetch(domain: string, file: RuleFile): Promise<void> {
+    if (!file.commit || !file.sha || file.stale) return;
+
+    const previous = await this.getLastFetch(domain);
+    if (previous?.sha === file.sha) return;
+
+    const record: FetchRecord = { commit: file.commit, sha: file.sha, fetchedAt: new Date().toISOString(), ...(previous && { previousCommit: previous.commit }) };
+    this.lastFetches.set(domain, record);
+    await this.diskCache?.set(`${this.name}#fetched:${domain}`, { data: record, fetchedAt: Date.now() });
+  }
+
+  private async resolveHistoryPoint(point?: string): Promise<{ ref: string, commit: string, date?: string }> {
+    const ref = point || this.ref || 'HEAD';
+    const until = point && isTimestamp(point) ? new Date(point).toISOString() : undefined;
+    const target = until ? this.ref || 'HEAD' : isSemverRange(ref) ? (await this.withRef(ref).resolveCommit()) ?? ref : ref;
+    const { commit } = await this.fetchCommit(target, until);
+    return { ref, commit: commit.sha, ...(commit.date && { date: commit.date }) };
+  }
+
+  private async fetchFileCommits(path: string, from: { commit: string, date?: string }, to: { commit: string }): Promise<RuleCommit[]> {
+    const url = `${this.baseUrl}/repos/${this.owner}/${this.repo}/commits?sha=${to.commit}&path=${encodeURIComponent(path)}&per_page=100${from.date ? `&since=${encodeURIComponent(from.date)}` : ''}`;
+    const result = await this.fetcher.fetch<RuleCommit[]>(url, Infinity, (data) => Array.isArray(data) ? data.map(toRuleCommit) : []);
+    return (result?.data || []).filter(commit => commit.sha !== from.commit);
+  }
+
+  withRef(ref: string): GitHubRepositoryFileReader {
+    return new GitHubRepositoryFileReader(this.owner, this.repo, this.path, ref, { ...this.options, diskCache: this.diskCache, fileCacheTtl: this.fileCacheTtl, directoryCacheTtl: this.directoryCacheTtl });
+  }
+
+  async resolveCommit(): Promise<string | undefined> {
+    if (isCommitSha(this.ref)) return this.ref;
+    if (this.resolvedCommit && (Date.now() - this.resolvedCommit.timestamp) < this.directoryCacheTtl) return this.resolvedCommit.commit;
+
+    const cacheKey = `${this.name}#commit`;
     try {
-      if (this.rateLimitResetTime > Date.now()) return await this.readRuleFileViaRawUrl(domain);
-
-      const directories = this.path ? [this.path] : ['chatmodes', 'prompts', 'instructions'];
-      const extensions = ['.chatmode.md', '.prompt.md', '.instructions.md', '.md', '.mdc'];
-
-      for (const dir of directories) {
-        for (const ext of extensions) {
-          try {
-            const url = `${this.baseUrl}/repos/${this.owner}/${this.repo}/contents/${dir}/${domain}${ext}?ref=${this.branch}`;
-            const headers: Record<string, string> = {
-              'Accept': 'application/vnd.github.v3+json',
-              'User-Agent': 'agent-rules-mcp',
-              ...(this.token && { 'Authorization': `token ${this.token}` })
-            };
-
-            const response = await fetch(url, { headers });
-            const rateLimitReset = response.headers.get('x-ratelimit-reset');
-            if (rateLimitReset) this.rateLimitResetTime = parseInt(rateLimitReset) * 1000;
-
-            if (response.ok) {
-              const data = await response.json() as any;
-              if (data.type !== 'file') throw new Error(`Expected file but got ${data.type} for domain: ${domain}`);
-              return Buffer.from(data.content, 'base64').toString('utf-8');
-            } else if (response.status !== 404) {
-              if (response.status === 403 || response.status === 429) return await this.readRuleFileViaRawUrl(domain);
-              throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
-            }
-          } catch (error) {
-            if (error instanceof Error && error.message.includes('rate limit')) {
-              try { return await this.readRuleFileViaRawUrl(domain); } catch { /* Continue to next combination */ }
-            }
-          }
-        }
+      const { commit, stale, tag } = isSemverRange(this.ref) ? await this.resolveSemverRange(this.ref) : await this.fetchCommitSha(this.ref || 'HEAD');
+      this.resolvedCommit = { commit, timestamp: Date.now(), stale, ...(tag && { tag }) };
+      if (!stale) await this.diskCache?.set(cacheKey, { data: commit, fetchedAt: Date.now() });
+      return commit;
+    } catch (error) {
+      const cached = this.resolvedCommit?.commit ?? (await this.diskCache?.get<string>(cacheKey))?.data;
+      if (cached) {
+        this.resolvedCommit = { commit: cached, timestamp: Date.now(), stale: true, ...(this.resolvedCommit?.tag && { tag: this.resolvedCommit.tag }) };
+        return cached;
       }
+      if (isSemverRange(this.ref)) throw error;
+      return undefined;
+    }
+  }
+
+  private async fetchCommitSha(ref: string): Promise<{ commit: string, stale: boolean, tag?: string }> {
+    const { commit, stale } = await this.fetchCommit(ref);
+    return { commit: commit.sha, stale };
+  }
+
+  private async fetchCommit(ref: string, until?: string): Promise<{ commit: RuleCommit, stale: boolean }> {
+    const url = `${this.baseUrl}/repos/${this.owner}/${this.repo}/commits?sha=${encodeURIComponent(ref)}${until ? `&until=${encodeURIComponent(until)}` : ''}&per_page=1`;
+    const result = await this.fetcher.fetch<RuleCommit | null>(url, isCommitSha(ref) ? Infinity : 0, (data) => Array.isArray(data) && data[0] ? toRuleCommit(data[0]) : null);
+    if (!result?.data) throw new Error(`Ref not found in ${this.owner}/${this.repo}: ${ref}${until ? ` (no commit before ${until})` : ''}`);
+    return { commit: result.data, stale: result.stale };
+  }
+
+  private async resolveSemverRange(range: string): Promise<{ commit: string, stale: boolean, tag?: string }> {
+    const tags: Array<{ name: string; sha: string }> = [];
+    let stale = false;
 
-      throw new Error(`Rule file not found for domain: ${domain} (searched in ${directories.join(', ')} with extensions ${extensions.join(', ')})`);
+    for (let page = 1; page <= 10; page++) {
+      const result = await this.fetcher.fetch<Array<{ name: string; sha: string }>>(`${this.baseUrl}/repos/${this.owner}/${this.repo}/tags?per_page=100&page=${page}`, this.directoryCacheTtl,
+        (data) => Array.isArray(data) ? data.map((tag: any) => ({ name: tag.name, sha: tag.commit?.sha })) : []);
+      tags.push(...(result?.data || []));
+      stale = stale || !!result?.stale;
+      if (!result || result.data.length < 100) break;
+    }
+
+    const tag = selectTag(tags, range);
+    if (!tag) throw new Error(`No tag in ${this.owner}/${this.repo} satisfies ${range} (found ${tags.length} tag${tags.length === 1 ? '' : 's'})`);
+    return { commit: tag.sha, stale, tag: tag.name };
+  }
+
+  private async getRef(): Promise<string> {
+    return (await this.resolveCommit()) || this.ref;
+  }
+
+  private async findIndexedFile(domain: string): Promise<GitHubTreeFile | null | undefined> {
+    await this.listRuleFiles().catch(() => undefined);
+    return this.fileIndex ? this.fileIndex.files.get(domain) ?? null : undefined;
+  }
+
+  private async readIndexedFile(file: GitHubTreeFile): Promise<RuleFile> {
+    try {
+      const result = await this.fetcher.fetch<string>(`${this.baseUrl}/repos/${this.owner}/${this.repo}/git/blobs/${file.sha}`, Infinity,
+        (data) => Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8'));
+      if (!result) throw new Error(`Rule file not found: ${file.path}`);
+      return { content: result.data, path: file.path, sha: file.sha, ...((result.stale || this.fileIndex?.stale) && { stale: true }) };
     } catch (error) {
-      throw error instanceof Error ? error : new Error(`Failed to read rule file for domain ${domain}: ${error}`);
+      if (!(error instanceof RateLimitError || error instanceof CircuitOpenError)) throw error;
     }
+
+    const rawUrl = `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${encodeURIComponent((await this.getRef()) || 'HEAD')}/${file.path.split('/').map(encodeURIComponent).join('/')}`;
+    const response = await this.httpClient.fetch(rawUrl, { headers: { 'User-Agent': 'agent-rules-mcp' } });
+    if (!response.ok) throw new Error(`Raw GitHub error: ${response.status} ${response.statusText}`);
+    return { content: await response.text(), path: file.path, sha: file.sha };
   }
 
-  private async readRuleFileViaRawUrl(domain: string): Promise<string> {
-    const directories = this.path ? [this.path] : ['chatmodes', 'prompts', 'instructions'];
-    const extensions = ['.chatmode.md', '.prompt.md', '.instructions.md', '.md', '.mdc'];
+  private async probeRuleFile(domain: string): Promise<RuleFile> {
+    const directories = this.getDirectories();
+    const resolvedKey = `${this.name}#resolved:${domain}`;
+    const resolvedUrl = (await this.diskCache?.get<string>(resolvedKey))?.data;
+    const ref = await this.getRef();
+    const candidateUrls = directories.flatMap(dir => this.extensions.map(ext => this.getContentsUrl(`${dir}/${domain}${ext}`, ref)));
+
+    for (const url of resolvedUrl ? [resolvedUrl, ...candidateUrls.filter(candidate => candidate !== resolvedUrl)] : candidateUrls) {
+      try {
+        const result = await this.fetcher.fetch<GitHubFile>(url, this.fileCacheTtl, (data) => {
+          if (data.type !== 'file') throw new Error(`Expected file but got ${data.type} for domain: ${domain}`);
+          return { content: Buffer.from(data.content, 'base64').toString('utf-8'), path: data.path, sha: data.sha };
+        });
+        if (!result) continue;
+
+        if (url !== resolvedUrl) await this.diskCache?.set(resolvedKey, { data: url, fetchedAt: Date.now() });
+        return { ...result.data, ...(result.stale && { stale: true }) };
+      } catch (error) {
+        if (error instanceof RateLimitError || error instanceof CircuitOpenError) return { content: await this.readRuleFileViaRawUrl(domain, ref) };
+        /* Continue to next combination */
+      }
+    }
+
+    throw new Error(`Rule file not found for domain: ${domain} (searched in ${directories.join(', ')} with extensions ${this.extensions.join(', ')})`);
+  }
+
+  private async readRuleFileViaRawUrl(domain: string, ref: string): Promise<string> {
+    const directories = this.getDirectories();
+    const extensions = this.extensions;
 
     for (const dir of directories) {
       for (const ext of extensions) {
         try {
-          const rawUrl = `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${this.branch}/${dir}/${domain}${ext}`;
-          const response = await fetch(rawUrl, { headers: { 'User-Agent': 'agent-rules-mcp' } });
+          const rawUrl = `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${ref}/${dir}/${domain}${ext}`;
+          const response = await this.httpClient.fetch(rawUrl, { headers: { 'User-Agent': 'agent-rules-mcp' } });
 
           if (response.ok) return await response.text();
           if (response.status !== 404) throw new Error(`Raw GitHub error: ${response.status} ${response.statusText}`);
@@ -98,25 +276,35 @@ export class GitHubRepositoryFileReader {
 
   async listRuleFiles(): Promise<string[]> {
     try {
-      if (this.directoryCache && (Date.now() - this.directoryCache.timestamp) < this.DIRECTORY_CACHE_TTL) {
-        return this.extractDomainsFromDirectoryData(this.directoryCache.data);
+      if (this.fileIndex && (Date.now() - this.fileIndex.timestamp) < this.directoryCacheTtl) return Array.from(this.fileIndex.files.keys());
+
+      try {
+        const index = await this.fetchFileIndex();
+        if (index) {
+          this.fileIndex = { ...index, timestamp: Date.now() };
+          return Array.from(index.files.keys());
+        }
+      } catch (error) {
+        if (this.fileIndex) return Array.from(this.fileIndex.files.keys());
+        /* Fall back to listing each directory through the contents API */
       }
 
-      if (this.rateLimitResetTime > Date.now()) {
-        if (this.directoryCache) return this.extractDomainsFromDirectoryData(this.directoryCache.data);
-        return [];
+      if (this.directoryCache && (Date.now() - this.directoryCache.timestamp) < this.directoryCacheTtl) {
+        return this.extractDomainsFromDirectoryData(this.directoryCache.data);
       }
 
-      const directories = this.path ? [this.path] : ['chatmodes', 'prompts', 'instructions'];
       let allFiles: any[] = [];
+      const ref = await this.getRef();
 
-      for (const dir of directories) {
+      for (const dir of this.getDirectories()) {
         try {
-          const dirFiles = await this.fetchDirectoryContents(dir);
+          const dirFiles = await this.fetchDirectoryContents(dir, ref);
           allFiles = allFiles.concat(dirFiles);
         } catch (error) { /* Continue with other directories even if one fails */ }
       }
 
+      if (allFiles.length === 0 && this.directoryCache) return this.extractDomainsFromDirectoryData(this.directoryCache.data);
+
       this.directoryCache = { data: allFiles, timestamp: Date.now() };
       return this.extractDomainsFromDirectoryData(allFiles);
     } catch (error) {
@@ -125,67 +313,66 @@ export class GitHubRepositoryFileReader {
     }
   }
 
-  private async fetchDirectoryContents(directory: string): Promise<any[]> {
-    const url = `${this.baseUrl}/repos/${this.owner}/${this.repo}/contents/${directory}?ref=${this.branch}`;
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-      'User-Agent': 'agent-rules-mcp',
-      ...(this.token && { 'Authorization': `token ${this.token}` })
-    };
+  async listRuleFileEntries(): Promise<RuleFileEntry[]> {
+    await this.listRuleFiles();
+    if (this.fileIndex) return this.fileIndex.entries;
 
-    const response = await fetch(url, { headers });
-    const rateLimitReset = response.headers.get('x-ratelimit-reset');
-    if (rateLimitReset) this.rateLimitResetTime = parseInt(rateLimitReset) * 1000;
+    return (this.directoryCache?.data ?? []).filter(item => item.type === 'file' && this.isRuleFile(item.name))
+      .map(item => ({ domain: this.extractDomainFromFilename(item.name), path: item.path, ...(typeof item.size === 'number' && { size: item.size }) }));
+  }
 
-    if (!response.ok) {
-      if (response.status === 404) return [];
-      throw new Error(`GitHub API error for ${directory}: ${response.status} ${response.statusText}`);
+  private async fetchFileIndex(): Promise<{ files: Map<string, GitHubTreeFile>, entries: RuleFileEntry[], stale: boolean } | null> {
+    const roots = this.getDirectories().map(dir => dir.replace(/^\/+|\/+$/g, ''));
+    const ref = (await this.getRef()) || 'HEAD';
+    const url = `${this.baseUrl}/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`;
+    const result = await this.fetcher.fetch<GitHubTreeFile[] | null>(url, isCommitSha(ref) ? Infinity : this.directoryCacheTtl, (data) => data.truncated ? null : (Array.isArray(data.tree) ? data.tree : [])
+      .filter((entry: any) => entry.type === 'blob' && roots.some(root => entry.path.startsWith(`${root}/`)))
+      .map((entry: any) => ({ path: entry.path, sha: entry.sha, ...(typeof entry.size === 'number' && { size: entry.size }) })));
+    if (!result?.data) return null;
+
+    const files = new Map<string, GitHubTreeFile>();
+    const entries: RuleFileEntry[] = [];
+    for (const root of roots) {
+      const index = this.indexRuleFiles(result.data, root);
+      entries.push(...index.entries);
+      index.files.forEach((file, domain) => { if (!files.has(domain)) files.set(domain, file); });
     }
 
-    const data = await response.json() as any[];
-    return Array.isArray(data) ? data : [];
+    return { files, entries, stale: result.stale };
   }
 
-  private extractDomainsFromDirectoryData(data: any[]): string[] {
-    const seenDomains = new Set<string>();
-    const validDomains: string[] = [];
-
-    for (const item of data) {
-      if (item.type !== 'file' || !this.isRuleFile(item.name)) continue;
-
-      const domain = this.extractDomainFromFilename(item.name);
-      if (seenDomains.has(domain) || !this.isValidDomain(domain)) continue;
-
-      validDomains.push(domain);
-      seenDomains.add(domain);
-    }
+  private async fetchDirectoryContents(directory: string, ref: string): Promise<any[]> {
+    const result = await this.fetcher.fetch<any[]>(this.getContentsUrl(directory, ref), this.directoryCacheTtl, (data) => Array.isArray(data) ? data : []);
+    return result ? result.data : [];
+  }
 
-    return validDomains;
+  private getDirectories(): string[] {
+    return this.path ? [this.path] : ['chatmodes', 'prompts', 'instructions'];
   }
 
-  private isRuleFile(filename: string): boolean {
-    const skipFiles = ['README.md', 'CONTRIBUTING.md', 'CODE_OF_CONDUCT.md', 'SECURITY.md', 'SUPPORT.md', 'LICENSE.md'];
-    if (skipFiles.includes(filename)) return false;
+  private getContentsUrl(filePath: string, ref: string): string {
+    return `${this.baseUrl}/repos/${this.owner}/${this.repo}/contents/${filePath}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
+  }
 
-    const ruleExtensions = ['.chatmode.md', '.prompt.md', '.instructions.md'];
-    return ruleExtensions.some(ext => filename.endsWith(ext)) ||
-      (filename.endsWith('.md') && !filename.startsWith('README')) ||
-      filename.endsWith('.mdc');
+  private getApiHeaders(etag?: string): Record<string, string> {
+    return {
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'agent-rules-mcp',
+      ...(this.token && { 'Authorization': `token ${this.token}` }),
+      ...(etag && { 'If-None-Match': etag })
+    };
   }
 
   async ruleExists(domain: string): Promise<boolean> {
     try {
-      const extensions = ['.md', '.mdc'];
+      if (this.fileIndex) return this.fileIndex.files.has(domain);
+      if (await this.diskCache?.get(`${this.name}#resolved:${domain}`)) return true;
+
+      const extensions = this.extensions;
+      const ref = await this.getRef();
 
       for (const ext of extensions) {
-        const url = `${this.baseUrl}/repos/${this.owner}/${this.repo}/contents/${this.path}/${domain}${ext}?ref=${this.branch}`;
-        const headers: Record<string, string> = {
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'agent-rules-mcp',
-          ...(this.token && { 'Authorization': `token ${this.token}` })
-        };
-
-        const response = await fetch(url, { headers });
+        const response = await this.httpClient.fetch(this.getContentsUrl(`${this.path}/${domain}${ext}`, ref), { headers: this.getApiHeaders() });
         if (response.ok) return true;
       }
 
@@ -193,105 +380,37 @@ export class GitHubRepositoryFileReader {
     } catch { return false; }
   }
 
-  parseRuleContent(content: string, domain: string): RuleContent {
-    try {
-      const ruleContent: RuleContent = { domain, content: content.trim() };
-
-      const frontmatterMatch = content.match(/^---\s*\r?\n([\s\S]*?)\r?\n---\s*\r?\n([\s\S]*)$/);
-      if (frontmatterMatch) {
-        const [, frontmatter, mainContent] = frontmatterMatch;
-        this.parseFrontmatter(frontmatter, ruleContent);
-        ruleContent.content = mainContent.trim();
-      } else {
-        this.parseInlineMetadata(content, ruleContent);
-      }
-
-      if (!ruleContent.description) ruleContent.description = this.generateDescriptionFromContent(content, domain);
-
-      return ruleContent;
-    } catch (error) {
-      console.error(`Error parsing markdown for domain ${domain}:`, error instanceof Error ? error.message : error);
-      return { domain, content: content.trim(), description: this.generateDescriptionFromContent(content, domain) };
-    }
+  async getRevision(): Promise<string | undefined> {
+    return this.resolveCommit().catch(() => undefined);
   }
 
-  private parseFrontmatter(frontmatter: string, ruleContent: RuleContent): void {
-    const lines = frontmatter.split(/\r?\n/);
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine || trimmedLine.startsWith('#')) continue;
-
-      const colonIndex = trimmedLine.indexOf(':');
-      if (colonIndex === -1) continue;
-
-      const key = trimmedLine.substring(0, colonIndex).trim().toLowerCase();
-      const value = trimmedLine.substring(colonIndex + 1).trim().replace(/^["']|["']$/g, '');
-
-      switch (key) {
-        case 'description': ruleContent.description = value; break;
-        case 'last_updated': case 'lastupdated': case 'updated': ruleContent.lastUpdated = value; break;
-        case 'version': ruleContent.version = value; break;
-      }
-    }
+  async pollRevision(): Promise<string | undefined> {
+    if (this.resolvedCommit) this.resolvedCommit.timestamp = 0;
+    return this.getRevision();
   }
 
-  private parseInlineMetadata(content: string, ruleContent: RuleContent): void {
-    const descriptionMatch = content.match(/(?:^|\r?\n)\s*-\s*Description:\s*(.+?)(?:\r?\n|$)/i);
-    if (descriptionMatch) ruleContent.description = descriptionMatch[1].trim();
-
-    const lastUpdatedMatch = content.match(/(?:^|\r?\n)\s*-\s*Last Updated:\s*(.+?)(?:\r?\n|$)/i);
-    if (lastUpdatedMatch) ruleContent.lastUpdated = lastUpdatedMatch[1].trim();
-
-    const versionMatch = content.match(/(?:^|\r?\n)\s*-\s*Version:\s*(.+?)(?:\r?\n|$)/i);
-    if (versionMatch) ruleContent.version = versionMatch[1].trim();
-  }
-
-  extractDomainFromFilename(filename: string): string {
-    if (filename.endsWith('.md')) {
-      let baseName = filename.slice(0, -3);
-      const compoundExtensions = ['.chatmode', '.prompt', '.instructions'];
-      for (const ext of compoundExtensions) {
-        if (baseName.endsWith(ext)) {
-          baseName = baseName.slice(0, -ext.length);
-          break;
-        }
-      }
-      return baseName;
-    }
+  hasAuthToken(): boolean { return !!this.token; }
 
-    if (filename.endsWith('.mdc')) return filename.slice(0, -4);
-    return filename;
+  getStatus(): Partial<SourceStatus> {
+    const commit = isCommitSha(this.ref) ? this.ref : this.resolvedCommit?.commit;
+    const rateLimit = this.fetcher.getRateLimit();
+    const lastError = this.fetcher.getLastError();
+    return {
+      auth: this.token ? 'token' : 'anonymous', ref: this.ref || 'default branch',
+      ...(this.resolvedCommit?.tag && { resolvedRef: this.resolvedCommit.tag }), ...(commit && { commit }),
+      ...((this.resolvedCommit?.stale || this.fileIndex?.stale) && { stale: true }), ...(rateLimit && { rateLimit }), ...(lastError && { lastError })
+    };
   }
 
-  isValidDomain(domain: string): boolean {
-    return /^[a-zA-Z0-9._-]+$/.test(domain) && domain.length > 0;
+  invalidate(): void {
+    this.fetcher.invalidate();
+    if (this.fileIndex) this.fileIndex.timestamp = 0;
+    if (this.directoryCache) this.directoryCache.timestamp = 0;
+    if (this.resolvedCommit) this.resolvedCommit.timestamp = 0;
   }
 
-  private generateDescriptionFromContent(content: string, domain: string): string {
-    try {
-      const headingMatch = content.match(/^#\s+(.+?)(?:\r?\n|$)/m);
-      if (headingMatch) {
-        const title = headingMatch[1].trim();
-        if (title.toLowerCase() !== domain.toLowerCase()) return title;
-      }
-
-      const paragraphMatch = content.match(/(?:^|\r?\n)(?!#)([^\r\n]+(?:\r?\n(?!#)[^\r\n]+)*)/m);
-      if (paragraphMatch) {
-        const paragraph = paragraphMatch[1].trim();
-        const firstSentence = paragraph.split(/[.!?]/)[0];
-        if (firstSentence && firstSentence.length > 10) {
-          return firstSentence.trim() + (firstSentence.length < paragraph.length ? '...' : '');
-        }
-      }
-
-      return `Development rules and guidelines for ${domain.replace(/[-_]/g, ' ')}`;
-    } catch (error) {
-      return `Rules for ${domain}`;
-    }
+  getRepositoryInfo(): string {
+    const commit = isCommitSha(this.ref) ? undefined : this.resolvedCommit?.commit;
+    return `${this.owner}/${this.repo}/${this.path} (ref: ${this.ref || 'default branch'}${commit ? ` at ${commit.slice(0, 12)}` : ''})`;
   }
-
-  hasAuthToken(): boolean { return !!this.token; }
-
-  getRepositoryInfo(): string { return `${this.owner}/${this.repo}/${this.path} (branch: ${this.branch})`; }
 }
\ No newline at end of file
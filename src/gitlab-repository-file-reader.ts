@@ -0,0 +1,78 @@
+import { RemoteReaderOptions, RemoteRepositoryFileReader, RemoteTreeFile } from './remote-repository-file-reader.js';
+import { FetchResult } from './remote-fetch.js';
+
+export interface GitLabReaderOptions extends RemoteReaderOptions {
+  baseUrl?: string;
+}
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+const PAGE_SIZE = 100;
+
+export class GitLabRepositoryFileReader extends RemoteRepositoryFileReader {
+  readonly name: string;
+  private readonly project: string;
+  private readonly baseUrl: string;
+  private readonly options: GitLabReaderOptions;
+
+  constructor(project: string, path = '', ref = '', options: GitLabReaderOptions = {}) {
+    super('GitLab', path, ref, options.token ?? process.env.GITLAB_TOKEN, options);
+    this.project = project.replace(/^\/+|\/+$/g, '');
+    this.baseUrl = (options.baseUrl || process.env.GITLAB_URL || DEFAULT_GITLAB_URL).replace(/\/+$/, '');
+    this.options = options;
+
+    if (!this.project.includes('/')) throw new Error(`Invalid GitLab project "${project}": expected <group>/<project>`);
+    const host = this.baseUrl === DEFAULT_GITLAB_URL ? '' : `${this.baseUrl}/`;
+    this.name = `gitlab:${host}${this.project}${this.path ? `/-/${this.path}` : ''}${this.ref ? `@${this.ref}` : ''}`;
+  }
+
+  withRef(ref: string): GitLabRepositoryFileReader {
+    return new GitLabRepositoryFileReader(this.project, this.path, ref, { ...this.options, baseUrl: this.baseUrl, diskCache: this.diskCache });
+  }
+
+  protected fetchTree(ref: string): Promise<FetchResult<RemoteTreeFile[]> | null> {
+    const query = `ref=${encodeURIComponent(ref)}&recursive=true&per_page=${PAGE_SIZE}${this.path ? `&path=${encodeURIComponent(this.path)}` : ''}`;
+    const pageUrl = (page: number) => `${this.getProjectUrl()}/repository/tree?${query}&page=${page}`;
+
+    return this.fetchPages<RemoteTreeFile>(pageUrl(1), this.directoryCacheTtl, (data, page) => {
+      const entries = Array.isArray(data) ? data : [];
+      return { items: entries.filter((entry: any) => entry.type === 'blob').map((entry: any) => ({ path: entry.path, sha: entry.id })), ...(entries.length === PAGE_SIZE && { next: pageUrl(page + 1) }) };
+    });
+  }
+
+  protected fetchFileContent(file: RemoteTreeFile, ref: string, ttl: number): Promise<FetchResult<string> | null> {
+    const url = file.sha
+      ? `${this.getProjectUrl()}/repository/blobs/${file.sha}/raw`
+      : `${this.getProjectUrl()}/repository/files/${encodeURIComponent(file.path)}/raw?ref=${encodeURIComponent(ref)}`;
+    return this.fetcher.fetch(url, file.sha ? Infinity : ttl, (data: string) => data, 'text');
+  }
+
+  protected fetchCommitSha(ref: string): Promise<FetchResult<string> | null> {
+    return this.fetcher.fetch(`${this.getProjectUrl()}/repository/commits/${encodeURIComponent(ref || 'HEAD')}`, 0, (data) => String(data.id));
+  }
+
+  protected getRawUrl(file: RemoteTreeFile, ref: string): string {
+    return `${this.baseUrl}/${this.project}/-/raw/${encodeURIComponent(ref)}/${file.path.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  protected getApiHeaders(etag?: string): Record<string, string> {
+    return {
+      'Accept': 'application/json',
+      'User-Agent': 'agent-rules-mcp',
+      ...(this.token && { 'PRIVATE-TOKEN': this.token }),
+      ...(etag && { 'If-None-Match': etag })
+    };
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.token ? { 'PRIVATE-TOKEN': this.token } : {};
+  }
+
+  private getProjectUrl(): string {
+    return `${this.baseUrl}/api/v4/projects/${encodeURIComponent(this.project)}`;
+  }
+
+  getRepositoryInfo(): string {
+    return `${this.baseUrl}/${this.project}/${this.path} (${this.describeRef()})`;
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { createServer, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { CircuitOpenError, HttpClient, parseRetryAfter } from './http-client.js';
+import { RateLimitError, RevalidatingFetcher } from './remote-fetch.js';
+import { DiskCache } from './disk-cache.js';
+
+describe('HttpClient', () => {
+    let server: Server;
+    let baseUrl: string;
+    let directory: string;
+    let faults: Array<(res: ServerResponse) => void> = [];
+    let requests = 0;
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const fast = { retryDelay: 1, maxRetryDelay: 50 };
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            requests++;
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            res.on('close', () => inFlight--);
+
+            const fault = faults.shift();
+            if (fault) return fault(res);
+            if (req.url === '/slow') return setTimeout(() => res.writeHead(200).end('slow'), 30);
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true }));
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+        faults = [];
+        requests = 0;
+        maxInFlight = 0;
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-http-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should retry server errors, dropped connections and Retry-After responses', async () => {
+        faults = [
+            res => res.writeHead(503).end(),
+            res => res.destroy(),
+            res => res.writeHead(429, { 'Retry-After': '0' }).end()
+        ];
+
+        const response = await new HttpClient(fast).fetch(`${baseUrl}/rules`);
+
+        expect(await response.json()).toEqual({ ok: true });
+        expect(requests).toBe(4);
+    });
+
+    it('should return the last response once retries are exhausted and not retry long Retry-After waits', async () => {
+        faults = [res => res.writeHead(502).end(), res => res.writeHead(502).end(), res => res.writeHead(403, { 'Retry-After': '3600' }).end()];
+        const client = new HttpClient({ ...fast, retries: 1 });
+
+        expect((await client.fetch(`${baseUrl}/rules`)).status).toBe(502);
+        expect((await client.fetch(`${baseUrl}/rules`)).status).toBe(403);
+        expect(requests).toBe(3);
+        expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT', Date.parse('Wed, 21 Oct 2015 07:27:00 GMT'))).toBe(60000);
+    });
+
+    it('should time out slow requests', async () => {
+        await expect(new HttpClient({ ...fast, timeout: 10, retries: 1 }).fetch(`${baseUrl}/slow`)).rejects.toThrow('timed out after 10ms');
+        expect(requests).toBe(2);
+    });
+
+    it('should limit the number of concurrent requests', async () => {
+        const client = new HttpClient({ concurrency: 2 });
+        const responses = await Promise.all(Array.from({ length: 6 }, () => client.fetch(`${baseUrl}/slow`).then(response => response.text())));
+
+        expect(responses).toEqual(Array(6).fill('slow'));
+        expect(maxInFlight).toBe(2);
+    });
+
+    it('should open the circuit after repeated failures and serve cached data meanwhile', async () => {
+        const client = new HttpClient({ ...fast, retries: 0, failureThreshold: 2, resetTimeout: 50 });
+        const fetcher = new RevalidatingFetcher({ provider: 'Test', diskCache: new DiskCache(directory), getHeaders: () => ({}), httpClient: client });
+        await fetcher.fetch(`${baseUrl}/rules`, 0, data => data);
+        faults = [res => res.writeHead(500).end(), res => res.writeHead(500).end()];
+
+        expect(await fetcher.fetch(`${baseUrl}/rules`, 0, data => data)).toEqual({ data: { ok: true }, stale: true });
+        expect(await fetcher.fetch(`${baseUrl}/rules`, 0, data => data)).toEqual({ data: { ok: true }, stale: true });
+        await expect(client.fetch(`${baseUrl}/other`)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(await fetcher.fetch(`${baseUrl}/rules`, 0, data => data)).toEqual({ data: { ok: true }, stale: true });
+        expect(requests).toBe(3);
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+        expect(await fetcher.fetch(`${baseUrl}/rules`, 0, data => data)).toEqual({ data: { ok: true }, stale: false });
+    });
+
+    it('should pause requests after a secondary rate limit with Retry-After', async () => {
+        const fetcher = new RevalidatingFetcher({ provider: 'Test', diskCache: null, getHeaders: () => ({}), rateLimitStatuses: [403, 429], httpClient: new HttpClient({ ...fast, retries: 0 }) });
+        faults = [res => res.writeHead(403, { 'Retry-After': '60' }).end()];
+
+        await expect(fetcher.fetch(`${baseUrl}/rules`, 0, data => data)).rejects.toBeInstanceOf(RateLimitError);
+        await expect(fetcher.fetch(`${baseUrl}/rules`, 0, data => data)).rejects.toBeInstanceOf(RateLimitError);
+        expect(requests).toBe(1);
+    });
+});
@@ -0,0 +1,147 @@
+import { getTtlFromEnv } from './disk-cache.js';
+import { Logger } from './error-handler.js';
+
+export interface HttpClientOptions {
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  concurrency?: number;
+  failureThreshold?: number;
+  resetTimeout?: number;
+}
+
+export const DEFAULT_HTTP_TIMEOUT = 15 * 1000;
+export const DEFAULT_HTTP_RETRIES = 3;
+export const DEFAULT_HTTP_CONCURRENCY = 8;
+
+const DEFAULT_OPTIONS: Required<HttpClientOptions> = {
+  timeout: DEFAULT_HTTP_TIMEOUT,
+  retries: DEFAULT_HTTP_RETRIES,
+  retryDelay: 500,
+  maxRetryDelay: 30 * 1000,
+  concurrency: DEFAULT_HTTP_CONCURRENCY,
+  failureThreshold: 5,
+  resetTimeout: 30 * 1000
+};
+
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export class CircuitOpenError extends Error {
+  readonly retryAt: number;
+
+  constructor(origin: string, retryAt: number) {
+    super(`Requests to ${origin} are paused after repeated failures until ${new Date(retryAt).toISOString()}`);
+    this.retryAt = retryAt;
+  }
+}
+
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value?.trim()) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const getCountFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name]?.trim() && Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Bounds every outgoing request with a timeout and a shared concurrency limit, retries network
+// errors, timeouts and 5xx/429 responses with jittered exponential backoff (or the server's
+// Retry-After), and stops calling an origin for a while once it keeps failing.
+export class HttpClient {
+  private readonly options: Required<HttpClientOptions>;
+  private readonly circuits: Map<string, { failures: number; openUntil: number }> = new Map();
+  private readonly queue: Array<() => void> = [];
+  private active = 0;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  static fromEnv(): HttpClient {
+    return new HttpClient({
+      timeout: getTtlFromEnv('RULES_HTTP_TIMEOUT', DEFAULT_HTTP_TIMEOUT),
+      retries: getCountFromEnv('RULES_HTTP_RETRIES', DEFAULT_HTTP_RETRIES),
+      concurrency: Math.max(1, getCountFromEnv('RULES_HTTP_CONCURRENCY', DEFAULT_HTTP_CONCURRENCY))
+    });
+  }
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const origin = new URL(url).origin;
+    const circuit = this.circuits.get(origin);
+    if (circuit && circuit.openUntil > Date.now()) throw new CircuitOpenError(origin, circuit.openUntil);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      let failure: unknown;
+
+      try {
+        response = await this.withSlot(() => fetch(url, { ...init, signal: AbortSignal.timeout(this.options.timeout) }));
+      } catch (error) {
+        failure = error instanceof Error && error.name === 'TimeoutError' ? new Error(`Request to ${url} timed out after ${this.options.timeout}ms`) : error;
+      }
+
+      if (response && !this.isRetryable(response)) {
+        this.recordResult(origin, response.status < 500);
+        return response;
+      }
+
+      const delay = this.getRetryDelay(attempt, response);
+      if (attempt >= this.options.retries || delay === undefined) {
+        this.recordResult(origin, !!response && response.status < 500);
+        if (response) return response;
+        throw failure;
+      }
+
+      await response?.body?.cancel().catch(() => undefined);
+      await sleep(delay);
+    }
+  }
+
+  private isRetryable(response: Response): boolean {
+    if (response.headers.get('x-ratelimit-remaining') === '0') return false;
+    return RETRY_STATUSES.includes(response.status) || (response.status === 403 && response.headers.has('retry-after'));
+  }
+
+  private getRetryDelay(attempt: number, response?: Response): number | undefined {
+    const retryAfter = parseRetryAfter(response?.headers.get('retry-after') ?? null);
+    if (retryAfter !== undefined) return retryAfter <= this.options.maxRetryDelay ? retryAfter : undefined;
+    return Math.random() * Math.min(this.options.maxRetryDelay, this.options.retryDelay * 2 ** attempt);
+  }
+
+  private recordResult(origin: string, success: boolean): void {
+    if (success) {
+      this.circuits.delete(origin);
+      return;
+    }
+
+    const failures = (this.circuits.get(origin)?.failures ?? 0) + 1;
+    const open = failures >= this.options.failureThreshold;
+    this.circuits.set(origin, { failures, openUntil: open ? Date.now() + this.options.resetTimeout : 0 });
+    if (open) Logger.warn(`Pausing requests to ${origin} for ${this.options.resetTimeout / 1000}s after ${failures} consecutive failures`);
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.options.concurrency) await new Promise<void>(resolve => this.queue.push(resolve));
+    else this.active++;
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+let sharedClient: HttpClient | undefined;
+
+export const getSharedHttpClient = (): HttpClient => sharedClient ??= HttpClient.fromEnv();
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHmac } from 'crypto';
+import { request as httpRequest } from 'http';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, RunningHttpServer, MAX_BODY_BYTES } from './http-server.js';
+import { createServer } from './server.js';
+import { RuleManager } from './rule-manager.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+
+describe('HTTP server', () => {
+    const authToken = 'test-token';
+    const webhookSecret = 'webhook-secret';
+    let running: RunningHttpServer;
+    let webhookEvents = 0;
+
+    beforeAll(async () => {
+        const ruleManager = new RuleManager([new LocalDirectoryFileReader(fileURLToPath(new URL('../rules', import.meta.url)))]);
+        running = await startHttpServer({
+            host: '127.0.0.1',
+            port: 0,
+            authToken,
+            createServer: () => createServer(ruleManager),
+            getHealth: () => ({ sources: ruleManager.getRulesDirectory() }),
+            webhook: { secret: webhookSecret, onEvent: async () => webhookEvents++ }
+        });
+    });
+
+    afterAll(async () => {
+        await running.close();
+    });
+
+    it('should report health without authentication and source details only with the bearer token', async () => {
+        const response = await fetch(`${running.url}/health`);
+        const body = await response.json() as Record<string, unknown>;
+        const detailed = await (await fetch(`${running.url}/health`, { headers: { Authorization: `Bearer ${authToken}` } })).json() as Record<string, unknown>;
+
+        expect(response.status).toBe(200);
+        expect(body).toEqual({ status: 'ok', sessions: 0 });
+        expect(detailed.sources).toContain('local directory');
+    });
+
+    it('should reject MCP requests without a valid bearer token', async () => {
+        const missing = await fetch(`${running.url}/mcp`, { method: 'POST', body: '{}' });
+        const wrong = await fetch(`${running.url}/mcp`, { method: 'POST', body: '{}', headers: { Authorization: 'Bearer nope' } });
+
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+        expect(wrong.status).toBe(401);
+    });
+
+    it('should reject requests without a session that are not initialize requests', async () => {
+        const response = await fetch(`${running.url}/mcp`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${authToken}`, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+        });
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should serve tools over Streamable HTTP', async () => {
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        await client.connect(new StreamableHTTPClientTransport(new URL(`${running.url}/mcp`), { requestInit: { headers: { Authorization: `Bearer ${authToken}` } } }));
+
+        try {
+            const { tools } = await client.listTools();
+            const result = await client.callTool({ name: 'get_rules', arguments: { domain: 'react' } }) as { content: Array<{ text: string }> };
+
+            expect(tools.map(t => t.name)).toContain('get_rules');
+            expect(JSON.parse(result.content[0].text).title).toBe('react');
+        } finally {
+            await client.close();
+        }
+    });
+
+    it('should answer oversized bodies with 413 and close the connection', async () => {
+        const post = (pathname: string, declareLength: boolean) => new Promise<{ status?: number; connection?: string }>((resolve, reject) => {
+            const headers = { Authorization: `Bearer ${authToken}`, 'Content-Type': 'application/json', ...(declareLength && { 'Content-Length': String(MAX_BODY_BYTES + 1) }) };
+            const request = httpRequest(`${running.url}${pathname}`, { method: 'POST', headers }, (response) => {
+                resolve({ status: response.statusCode, connection: response.headers.connection });
+                request.destroy();
+            });
+            request.on('error', reject);
+            if (declareLength) request.flushHeaders();
+            else request.write(Buffer.alloc(MAX_BODY_BYTES + 1));
+        });
+
+        expect(await post('/mcp', true)).toEqual({ status: 413, connection: 'close' });
+        expect(await post('/mcp', false)).toEqual({ status: 413, connection: 'close' });
+        expect(await post('/webhook', false)).toEqual({ status: 413, connection: 'close' });
+    });
+
+    it('should accept signed push webhooks without the bearer token', async () => {
+        const body = JSON.stringify({ ref: 'refs/heads/main' });
+        const signature = `sha256=${createHmac('sha256', webhookSecret).update(body).digest('hex')}`;
+        const post = (headers: Record<string, string>) => fetch(`${running.url}/webhook`, { method: 'POST', body, headers: { 'Content-Type': 'application/json', ...headers } });
+
+        expect((await post({ 'X-Hub-Signature-256': 'sha256=0000' })).status).toBe(401);
+        expect((await post({})).status).toBe(401);
+        expect((await post({ 'X-Hub-Signature-256': signature })).status).toBe(202);
+        expect((await post({ 'X-Gitlab-Token': webhookSecret })).status).toBe(202);
+        expect(webhookEvents).toBe(2);
+    });
+});
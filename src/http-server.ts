@@ -0,0 +1,193 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from './error-handler.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  createServer: () => Server;
+  getHealth?: () => Record<string, unknown> | Promise<Record<string, unknown>>;
+  webhook?: WebhookOptions;
+}
+
+export interface WebhookOptions {
+  secret: string;
+  onEvent: () => Promise<unknown>;
+}
+
+export interface RunningHttpServer {
+  httpServer: HttpServer;
+  url: string;
+  close(): Promise<void>;
+}
+
+export const MCP_ENDPOINT = '/mcp';
+export const SSE_ENDPOINT = '/sse';
+export const MESSAGES_ENDPOINT = '/messages';
+export const HEALTH_ENDPOINT = '/health';
+export const WEBHOOK_ENDPOINT = '/webhook';
+
+export const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(data));
+};
+
+const jsonRpcError = (code: number, message: string) => ({ jsonrpc: '2.0', error: { code, message }, id: null });
+
+// Stops reading once the limit is exceeded; the caller answers 413 and closes the connection.
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) return reject(new PayloadTooLargeError());
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) return void chunks.push(chunk);
+
+    req.off('data', onData).pause();
+    reject(new PayloadTooLargeError());
+  };
+
+  req.on('data', onData).once('end', () => resolve(Buffer.concat(chunks))).once('error', reject);
+});
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => JSON.parse((await readBody(req)).toString('utf-8'));
+
+const safeEqual = (expected: string, provided: string): boolean => {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+};
+
+const isAuthorized = (req: IncomingMessage, authToken?: string): boolean => {
+  if (!authToken) return true;
+
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  return !!match && safeEqual(authToken, match[1].trim());
+};
+
+// GitHub, Gitea and Bitbucket sign the payload with X-Hub-Signature-256; GitLab sends the secret as X-Gitlab-Token.
+const isValidWebhook = (req: IncomingMessage, body: Buffer, secret: string): boolean => {
+  const gitlabToken = req.headers['x-gitlab-token'];
+  if (typeof gitlabToken === 'string') return safeEqual(secret, gitlabToken);
+
+  const signature = req.headers['x-hub-signature-256'];
+  return typeof signature === 'string' && safeEqual(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`, signature);
+};
+
+export const startHttpServer = async (options: HttpServerOptions): Promise<RunningHttpServer> => {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (sessionId && !transport) return sendJson(res, 404, jsonRpcError(-32001, 'Session not found'));
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) throw error;
+        return sendJson(res, 400, jsonRpcError(-32700, `Parse error: ${error instanceof Error ? error.message : error}`));
+      }
+    }
+
+    if (!transport) {
+      if (req.method !== 'POST' || !isInitializeRequest(body)) return sendJson(res, 400, jsonRpcError(-32000, 'Bad Request: No valid session ID provided'));
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => { streamableTransports.set(id, newTransport); }
+      });
+      newTransport.onclose = () => { if (newTransport.sessionId) streamableTransports.delete(newTransport.sessionId); };
+
+      await options.createServer().connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseRequest = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport(MESSAGES_ENDPOINT, res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => sseTransports.delete(transport.sessionId));
+    await options.createServer().connect(transport);
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_ENDPOINT && req.method === 'GET') {
+      const details = isAuthorized(req, options.authToken) ? await options.getHealth?.() : undefined;
+      return sendJson(res, 200, { status: 'ok', sessions: streamableTransports.size + sseTransports.size, ...details });
+    }
+
+    if (url.pathname === WEBHOOK_ENDPOINT && req.method === 'POST' && options.webhook) {
+      const { secret, onEvent } = options.webhook;
+      if (!isValidWebhook(req, await readBody(req), secret)) return sendJson(res, 401, { error: 'Invalid webhook signature' });
+
+      onEvent().catch(error => Logger.warn('Failed to process webhook', { error: error instanceof Error ? error.message : error }));
+      return sendJson(res, 202, { status: 'accepted' });
+    }
+
+    if (!isAuthorized(req, options.authToken)) return sendJson(res, 401, jsonRpcError(-32001, 'Unauthorized'), { 'WWW-Authenticate': 'Bearer' });
+
+    if (url.pathname === MCP_ENDPOINT) return handleStreamableRequest(req, res);
+    if (url.pathname === SSE_ENDPOINT && req.method === 'GET') return handleSseRequest(res);
+
+    if (url.pathname === MESSAGES_ENDPOINT && req.method === 'POST') {
+      const transport = sseTransports.get(url.searchParams.get('sessionId') || '');
+      if (!transport) return sendJson(res, 404, jsonRpcError(-32001, 'Session not found'));
+      return transport.handlePostMessage(req, res);
+    }
+
+    sendJson(res, 404, { error: 'Not found', endpoints: [MCP_ENDPOINT, SSE_ENDPOINT, HEALTH_ENDPOINT] });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (error instanceof PayloadTooLargeError) return sendJson(res, 413, jsonRpcError(-32600, error.message), { Connection: 'close' });
+
+      Logger.error('Error handling HTTP request', error, { method: req.method, url: req.url });
+      if (!res.headersSent) sendJson(res, 500, jsonRpcError(-32603, 'Internal server error'));
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  return {
+    httpServer,
+    url: `http://${host}:${port}`,
+    close: async () => {
+      await Promise.allSettled([...streamableTransports.values(), ...sseTransports.values()].map(transport => transport.close()));
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+};
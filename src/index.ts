@@ -1,182 +1,45 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { RuleManager } from './rule-manager.js';
-import { ErrorHandler, Logger } from './error-handler.js';
-
-const ruleManager = new RuleManager();
-const server = new Server({ name: 'agent-rules-mcp', version: '1.0.0' }, { capabilities: { tools: {} } });
-
-const TOOLS = [
-  {
-    name: 'get_rules',
-    description: `Retrieves development rules and best practices for specific domains from GitHub repository rules folder.
-
-Supports both .md and .mdc markdown files with flexible structure - works with any markdown content even without specific metadata.
-
-IMPORTANT: When users request "apply all rules" or "get all rules", use the 'domains' parameter with ALL available domain names from list_rules to return every rule at once.
-
-You MUST call 'list_rules' first to see available domains UNLESS you already know the exact domain names.
-
-Usage Patterns:
-- Single domain: {"domain": "react"} - Gets one specific rule set
-- Multiple domains: {"domains": ["react", "security", "typescript"]} - Gets multiple specific rule sets  
-- ALL rules: {"domains": ["domain1", "domain2", "domain3", ...]} - Gets every available rule (use ALL domain names from list_rules)
-
-Selection Process:
-1. If user says "apply all rules" or "get all rules" → Call list_rules first, then use ALL domain names in the domains array
-2. For specific requests → Analyze what development domain/technology the user needs rules for
-3. Return the most relevant rule content based on:
-   - Exact domain name match (e.g., "react", "security", "typescript")
-   - Content relevance to the user's development context
-   - Comprehensive coverage of best practices and guidelines
-
-For ambiguous requests, request clarification before proceeding with a best-guess match.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        domain: { type: 'string', description: 'The domain name to retrieve rules for (e.g., "react", "security"). Use this for single domain requests.' },
-        domains: { type: 'array', items: { type: 'string' }, description: 'Array of domain names to retrieve rules for. Use ALL available domain names from list_rules when user requests "apply all rules" (e.g., ["react", "security", "nextjs", "typescript", "clean-code", ...]). Use this for multiple domain requests.' }
-      }
-    }
-  },
-  {
-    name: 'list_rules',
-    description: `Lists all available development rule domains with descriptions and metadata from the GitHub repository.
-
-Supports both .md and .mdc markdown files with flexible metadata extraction - automatically generates descriptions even for files without explicit metadata.
-
-This function provides a comprehensive overview of all available rule sets, helping users discover relevant development guidelines and best practices.
-
-Discovery Process:
-1. Scans the rules folder in repository for all available .md and .mdc files
-2. Extracts metadata including descriptions and last updated timestamps (when available)
-3. Auto-generates descriptions from content when explicit metadata is missing
-4. Returns organized list with domain names matching filename conventions
-
-Response Format:
-- Returns {domains: [{domain, description, lastUpdated}], totalCount, message} object
-- Each domain entry includes:
-  - domain: The exact name to use with 'get_rules' (matches filename without .md/.mdc extension)
-  - description: Human-readable summary of what the rules cover (extracted or auto-generated)
-  - lastUpdated: When the rules were last modified (if available in metadata)
-
-Usage:
-- Call this function first to explore available rule domains
-- Use the returned domain names exactly as shown when calling 'get_rules'
-- Review descriptions to find the most relevant rules for your development context
-
-No parameters required - simply call list_rules() to see all available options.`,
-    inputSchema: { type: 'object', properties: {}, additionalProperties: false }
-  }
-] as const;
-
-server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }));
-
-const validateArgs = (args: unknown) => {
-  if (!args || typeof args !== 'object') {
-    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object with domain or domains property', undefined,
-      ['Provide a domain parameter as a string: {"domain": "react"}', 'Or provide domains parameter as an array: {"domains": ["react", "security"]}']);
-  }
-};
-
-const validateDomainInput = (domain: unknown, domains: unknown): string[] => {
-  const hasOnlyDomain = domain && !domains;
-  const hasOnlyDomains = domains && !domain;
-
-  if (!hasOnlyDomain && !hasOnlyDomains) {
-    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Must provide either domain or domains parameter, but not both', undefined,
-      ['For single domain: {"domain": "react"}', 'For multiple domains: {"domains": ["react", "security"]}']);
-  }
-
-  if (hasOnlyDomain) {
-    if (typeof domain !== 'string' || domain.trim().length === 0) throw ErrorHandler.handleDomainValidationError(domain as string);
-    return [domain as string];
-  }
-
-  if (!Array.isArray(domains) || domains.length === 0) {
-    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams,
-      Array.isArray(domains) && domains.length === 0 ? 'Domains array cannot be empty' : 'Invalid domains parameter: must be an array of strings',
-      undefined, ['Provide at least one domain in the array', 'Example: {"domains": ["react"]}']);
-  }
-
-  domains.forEach(d => {
-    if (typeof d !== 'string' || d.trim().length === 0) {
-      throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'All domains must be non-empty strings', undefined,
-        ['Ensure all items in domains array are valid strings', 'Example: {"domains": ["react", "security"]}']);
-    }
-  });
-
-  return domains as string[];
-};
-
-const sanitizeDomains = (domains: string[]): string[] => domains.map(d => {
-  const sanitized = d.replace(/[^a-zA-Z0-9\-_]/g, '');
-  if (sanitized !== d) throw ErrorHandler.handleDomainValidationError(d);
-  return sanitized;
-});
-
-const processRuleResults = async (sanitizedDomains: string[]) => {
-  const results = await Promise.allSettled(sanitizedDomains.map(async (domain) => {
-    const ruleContent = await ruleManager.getRuleContentSafe(domain);
-    if (!ruleContent) throw new Error(`Rule not found for domain: ${domain}`);
-    return { domain: ruleContent.domain, content: ruleContent.content };
-  }));
-
-  const successfulResults = results.filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled').map(r => r.value);
-  const failedDomains = results.map((r, i) => r.status === 'rejected' ? sanitizedDomains[i] : null).filter(Boolean) as string[];
-
-  if (successfulResults.length === 0) {
-    const availableDomains = await ruleManager.listAvailableDomains();
-    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `No rules found for any of the requested domains: ${failedDomains.join(', ')}`, undefined, [
-      'Check if the domain names are spelled correctly', 'Use list_rules to see available domains',
-      `Available domains: ${availableDomains.map(d => d.domain).join(', ')}`, 'Domain names should match the filename without .md extension'
-    ]);
+import { createRuleSources } from './rule-source-factory.js';
+import { createServer, resolveEnabledTools } from './server.js';
+import { HEALTH_ENDPOINT, MCP_ENDPOINT, SSE_ENDPOINT, WEBHOOK_ENDPOINT, startHttpServer } from './http-server.js';
+import { RuleWatcher, getWatchOptions } from './rule-watcher.js';
+import { CLI_COMMANDS, getFlagValue, getFlagValues } from './cli.js';
+import { LoadedRulesConfig, loadRulesConfig } from './rule-config.js';
+import { loadEnvVariables } from './rule-template.js';
+import { Logger } from './error-handler.js';
+
+const cliArgs = process.argv.slice(2);
+const command = cliArgs[0] && !cliArgs[0].startsWith('-') ? cliArgs[0] : undefined;
+let loadedConfig: LoadedRulesConfig | undefined;
+const getConfig = (): LoadedRulesConfig => {
+  try {
+    return loadedConfig ??= loadRulesConfig(getFlagValue(cliArgs, '--config'));
+  } catch (error) {
+    Logger.error('Invalid configuration', error);
+    process.exit(1);
   }
-
-  return { successfulResults, failedDomains };
 };
 
-const formatResponse = (data: any) => ({ content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] });
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
+const createRuleManager = (): RuleManager => {
+  const { config } = getConfig();
   try {
-    if (name === 'get_rules') {
-      validateArgs(args);
-      const { domain, domains } = args as { domain?: unknown; domains?: unknown };
-      const domainsToProcess = validateDomainInput(domain, domains);
-      const sanitizedDomains = sanitizeDomains(domainsToProcess);
-      const { successfulResults, failedDomains } = await processRuleResults(sanitizedDomains);
-
-      const responseData = domainsToProcess.length === 1
-        ? { title: successfulResults[0].domain, content: successfulResults[0].content }
-        : { rules: successfulResults.map(rule => ({ title: rule.domain, content: rule.content })), total: successfulResults.length, ...(failedDomains.length > 0 && { failed: failedDomains }) };
-
-      return formatResponse(responseData);
-    }
-
-    if (name === 'list_rules') {
-      const domains = await ruleManager.listAvailableDomains();
-      const responseData = domains.length === 0
-        ? { domains: [], totalCount: 0, message: 'No rule files found in the GitHub repository.' }
-        : { domains: domains.map(({ domain, description, lastUpdated }) => ({ domain, description, lastUpdated })), totalCount: domains.length, message: `Found ${domains.length} rule domain${domains.length === 1 ? '' : 's'}` };
-
-      return formatResponse(responseData);
-    }
-
-    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    return new RuleManager(createRuleSources({ rulesDirectory: getFlagValue(cliArgs, '--rules-dir'), sources: getFlagValues(cliArgs, '--source'), pack: getFlagValue(cliArgs, '--pack'), config }), {
+      variables: { ...config.variables, ...loadEnvVariables() },
+      ...(config.cache?.ttl !== undefined && { cacheTtl: config.cache.ttl * 1000 })
+    });
   } catch (error) {
-    if (error instanceof McpError) throw error;
-    Logger.error(`Error in tool ${name}`, error, { toolName: name });
-    throw ErrorHandler.createMcpError(ErrorCode.InternalError, `Internal error in tool ${name}`, undefined,
-      ['Check server logs for more details', 'Retry the request', 'Contact support if the problem persists']);
+    Logger.error('Invalid rule source configuration', error);
+    process.exit(1);
   }
-});
+};
 
+let ruleManager: RuleManager | undefined;
+const getRuleManager = (): RuleManager => ruleManager ??= createRuleManager();
+
+let ruleWatcher: RuleWatcher | undefined;
 let isShuttingDown = false;
 
 const gracefulShutdown = async (signal: string) => {
@@ -185,7 +48,8 @@ const gracefulShutdown = async (signal: string) => {
   Logger.info(`Received ${signal}, shutting down gracefully...`);
 
   try {
-    ruleManager.clearCache();
+    ruleWatcher?.stop();
+    ruleManager?.clearCache();
     Logger.info('Cache cleared during shutdown');
     process.exit(0);
   } catch (error) {
@@ -202,13 +66,13 @@ const gracefulShutdown = async (signal: string) => {
   });
 });
 
-const handleCliArgs = () => {
-  const args = process.argv.slice(2);
+const handleCliArgs = async () => {
+  const args = cliArgs;
   const hasHelp = args.some(arg => ['--help', '-h'].includes(arg));
   const hasVersion = args.some(arg => ['--version', '-v'].includes(arg));
 
   if (hasHelp) {
-    console.log(`Agent Rules MCP Server v1.3.5\n\nA Model Context Protocol server that provides development rules and best practices\nfrom a remote GitHub repository.\n\nUsage:\n  agent-rules-mcp [options]\n\nOptions:\n  --help, -h     Show this help message\n  --version, -v  Show version information\n\nThe server fetches rules from a configurable GitHub repository.\nConfigure via environment variables: GITHUB_OWNER, GITHUB_REPO, GITHUB_PATH, GITHUB_BRANCH\n\nExamples:\n  agent-rules-mcp                    # Start server and fetch from GitHub\n\nThe server provides two MCP tools:\n  - get_rules(domain)  Get rule content for a specific domain\n  - list_rules()       List all available rule domains\n\nFor more information, visit: https://github.com/4regab/agent-rules-mcp`);
+    console.log(`Agent Rules MCP Server v1.3.5\n\nA Model Context Protocol server that provides development rules and best practices\nfrom a remote GitHub repository or a local directory.\n\nUsage:\n  agent-rules-mcp [options]\n  agent-rules-mcp snapshot [--out <file>] [options]\n  agent-rules-mcp diff <domain> (--from <ref|date> [--to <ref|date>] | --since-last-fetch) [--json]\n  agent-rules-mcp lint [<dir|owner/repo[/path][@ref]|source spec>...] [--format json|sarif] [--max-size <bytes>]\n  agent-rules-mcp export <cursor|copilot|agents|claude|windsurf> [domains...] [--out <dir>] [--dry-run]\n  agent-rules-mcp install <cursor|copilot|agents|claude|windsurf> <domains...> [--out <dir>] [--dry-run] [--force]\n  agent-rules-mcp sync [--dry-run] [--force]\n  agent-rules-mcp config <check|schema> [--config <file>]\n\nCommands:\n  snapshot            Fetch every rule into an offline rule pack (default: rules.pack.json)\n  diff                Show a unified diff and the commits that changed a rule between two revisions\n  lint                Check rules for broken frontmatter, duplicate domains, broken includes and links (exits 1 on errors)\n  export              Write rules in the native format of Cursor, Copilot, AGENTS.md, CLAUDE.md or Windsurf\n  install             Export rules into the workspace and record them in agent-rules.lock.json\n  sync                Update installed rules from the lockfile, reporting local edits as conflicts (exits 1 on conflicts)\n  config              Validate agent-rules.config.json/.yaml and print the resolved settings, or print its JSON schema\n\nOptions:\n  --help, -h          Show this help message\n  --version, -v       Show version information\n  --config <file>     Read settings from this file instead of agent-rules.config.json/.yaml (env AGENT_RULES_CONFIG)\n  --rules-dir <path>  Serve rules from a local directory instead of GitHub\n  --source <spec>     Add a rule source (repeatable, highest priority first):\n                      local:<path>, pack:<file>, github:<owner>/<repo>[/<path>][@<ref>],\n                      gitlab:[<url>/]<group>/<project>[/-/<path>][@<ref>],\n                      bitbucket:<workspace>/<repo>[/<path>][@<ref>] or git:<url>[#<ref>[:<path>]]\n  --pack <file>       Serve only from a rule pack created by snapshot (no network access)\n  --http              Serve over Streamable HTTP/SSE instead of stdio\n  --host <host>       HTTP bind address (default: 127.0.0.1, env MCP_HTTP_HOST)\n  --port <port>       HTTP port (default: 3000, env MCP_HTTP_PORT)\n\nThe server fetches rules from a configurable GitHub repository.\nConfigure via agent-rules.config.json/.yaml (sources, refs, paths, extensions, skip lists, TTLs, token variables, tools)\nor environment variables: GITHUB_OWNER, GITHUB_REPO, GITHUB_PATH, GITHUB_BRANCH, GITHUB_TOKEN, GITHUB_API_URL\nWithout GITHUB_PATH, the chatmodes, prompts and instructions folders are searched.\nGITHUB_BRANCH accepts any ref: a branch, tag, commit SHA or semver range such as ^1.2 (matched against tags).\nSet RULES_DIRECTORY (or pass --rules-dir) to read rules from a local directory instead.\nSet RULE_SOURCES to a comma-separated list of source specs to layer several sources.\nGitLab sources use GITLAB_URL and GITLAB_TOKEN; Bitbucket sources use BITBUCKET_TOKEN or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD.\nSet RULES_PACK (or pass --pack) to serve from a rule pack; its content hashes are verified on load.\nGitHub responses are cached on disk (RULES_CACHE_DIR, RULES_CACHE_TTL, RULES_DIRECTORY_CACHE_TTL; RULES_DISK_CACHE=off to disable).\nRequests time out, retry with backoff and run a few at a time (RULES_HTTP_TIMEOUT, RULES_HTTP_RETRIES, RULES_HTTP_CONCURRENCY).\nTemplate variables such as {{nodeVersion}} are filled from RULES_VAR_<name> env vars and the \"variables\" of agent-rules.config.json/.yaml.\nLocal rule directories are watched and remote sources polled for new commits (RULES_WATCH=off, RULES_POLL_INTERVAL, RULES_WATCH_DEBOUNCE).\nIn HTTP mode, set MCP_AUTH_TOKEN to require an "Authorization: Bearer <token>" header.\nIn HTTP mode, set RULES_WEBHOOK_SECRET to reload rules on push webhooks sent to /webhook.\n\nExamples:\n  agent-rules-mcp                    # Start server and fetch from GitHub\n  agent-rules-mcp --rules-dir ./rules  # Serve rules from a local folder\n  agent-rules-mcp --http --port 8080   # Share one server with the team over HTTP\n  agent-rules-mcp snapshot --out rules.pack.json  # Bundle rules for offline use\n  agent-rules-mcp --pack rules.pack.json          # Serve the bundle without network access\n  agent-rules-mcp export cursor react testing     # Write .cursor/rules/react.mdc and testing.mdc\n\nThe server provides these MCP tools:\n  - get_rules(domain)           Get rule content for a specific domain\n  - get_rule_outline(domain)     Get the heading tree of a rule\n  - get_rules_for_files(files)  Get rules whose globs/applyTo patterns match the given files\n  - search_rules(query)         Full-text search over rule contents\n  - diff_rules(domain, from)    Diff a rule between two revisions with its commit history\n  - validate_rules()            Lint the configured rule sources\n  - export_rules(target)        Render rules as Cursor, Copilot, AGENTS.md, CLAUDE.md or Windsurf files\n  - install_rules(target, domains)  Write rules into the workspace with a lockfile ({"sync": true} updates them)\n  - list_rules()                List all available rule domains\n  - server_status()             Report sources, auth, rate limits, cache hits and recent upstream errors\n  - refresh_rules(domains?)     Invalidate cached rules and fetch them again\n\nFor more information, visit: https://github.com/4regab/agent-rules-mcp`);
     process.exit(0);
   }
 
@@ -216,23 +80,73 @@ const handleCliArgs = () => {
     console.log('agent-rules-mcp v1.3.5');
     process.exit(0);
   }
+
+  if (command) {
+    const run = CLI_COMMANDS.get(command);
+    if (!run) {
+      console.error(`Unknown command: ${command}\nRun agent-rules-mcp --help for usage.`);
+      process.exit(1);
+    }
+
+    try {
+      process.exit(await run(cliArgs, getRuleManager) ?? 0);
+    } catch (error) {
+      Logger.error(`Command ${command} failed`, error);
+      process.exit(1);
+    }
+  }
+};
+
+const startHttp = async (ruleManager: RuleManager, tools: string[], watcher: RuleWatcher) => {
+  const host = getFlagValue(cliArgs, '--host') || process.env.MCP_HTTP_HOST || '127.0.0.1';
+  const port = Number(getFlagValue(cliArgs, '--port') || process.env.MCP_HTTP_PORT || 3000);
+  const authToken = process.env.MCP_AUTH_TOKEN;
+  const webhookSecret = process.env.RULES_WEBHOOK_SECRET;
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`Invalid HTTP port: ${getFlagValue(cliArgs, '--port') || process.env.MCP_HTTP_PORT}`);
+  if (!authToken && !['127.0.0.1', 'localhost', '::1'].includes(host)) Logger.warn('HTTP server is reachable from the network without MCP_AUTH_TOKEN set', { host });
+
+  const { url } = await startHttpServer({
+    host, port, authToken,
+    createServer: () => createServer(ruleManager, { tools }),
+    getHealth: () => ({ sources: ruleManager.getRulesDirectory(), cachedRules: ruleManager.getCacheStats().size }),
+    ...(webhookSecret && { webhook: { secret: webhookSecret, onEvent: () => watcher.refresh() } })
+  });
+
+  [`✓ Agent Rules MCP server listening on ${url}`, `Streamable HTTP endpoint: ${url}${MCP_ENDPOINT}`, `Legacy SSE endpoint: ${url}${SSE_ENDPOINT}`,
+    `Health check: ${url}${HEALTH_ENDPOINT}`, `Authentication: ${authToken ? 'bearer token required' : 'disabled'}`,
+    `Webhook: ${webhookSecret ? `${url}${WEBHOOK_ENDPOINT}` : 'disabled (set RULES_WEBHOOK_SECRET)'}`, 'Use Ctrl+C to stop the server']
+    .forEach(msg => Logger.info(msg));
 };
 
 const main = async () => {
-  handleCliArgs();
+  await handleCliArgs();
+  const ruleManager = getRuleManager();
+  const { file: configFile, config } = getConfig();
 
   try {
-    ['Starting Agent Rules MCP server v1.3.5', `GitHub repository: ${ruleManager.getRulesDirectory()}`,
+    const tools = resolveEnabledTools(config.tools);
+    ['Starting Agent Rules MCP server v1.3.5', `Configuration: ${configFile ?? 'none'}`, `Rule source: ${ruleManager.getRulesDirectory()}`,
       `Node.js version: ${process.version}`, `Platform: ${process.platform} ${process.arch}`]
       .forEach(info => Logger.info(info));
 
     const domains = await ruleManager.listAvailableDomains();
     Logger.info(`Found ${domains.length} rule domain${domains.length === 1 ? '' : 's'}`);
 
-    if (domains.length === 0) Logger.warn('No rule files found in the GitHub repository', { repository: ruleManager.getRulesDirectory() });
+    if (domains.length === 0) Logger.warn('No rule files found in the rule source', { repository: ruleManager.getRulesDirectory() });
     else Logger.info(`Available domains: ${domains.map(d => d.domain).join(', ')}`);
 
-    await server.connect(new StdioServerTransport());
+    const watchOptions = getWatchOptions(config.watch);
+    ruleWatcher = new RuleWatcher(ruleManager, watchOptions);
+    await ruleWatcher.start();
+    if (watchOptions.enabled) Logger.info(`Watching for rule changes${watchOptions.pollInterval > 0 && ruleManager.getSources().some(source => source.remote) ? ` (remote sources checked every ${watchOptions.pollInterval / 1000}s)` : ''}`);
+
+    if (cliArgs.includes('--http')) {
+      await startHttp(ruleManager, tools, ruleWatcher);
+      return;
+    }
+
+    await createServer(ruleManager, { tools }).connect(new StdioServerTransport());
 
     ['✓ Agent Rules MCP server running on stdio', 'Server ready to accept MCP requests', 'Use Ctrl+C to stop the server']
       .forEach(msg => Logger.info(msg));
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+
+describe('LocalDirectoryFileReader', () => {
+    let rulesDir: string;
+
+    beforeAll(async () => {
+        rulesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-local-'));
+        await fs.writeFile(path.join(rulesDir, 'react.md'), '# React Rules\n\n- Description: React conventions\n\n## Hooks\n- Use hooks');
+        await fs.writeFile(path.join(rulesDir, 'cursor.mdc'), '---\ndescription: Cursor rules\n---\n# Cursor');
+        await fs.writeFile(path.join(rulesDir, 'guide.instructions.md'), '# Guide');
+        await fs.writeFile(path.join(rulesDir, 'README.md'), '# Readme');
+        await fs.writeFile(path.join(rulesDir, 'package.json'), '{}');
+        await fs.mkdir(path.join(rulesDir, 'nested'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(rulesDir, { recursive: true, force: true });
+    });
+
+    describe('listRuleFiles', () => {
+        it('should list .md, .mdc and compound extension files', async () => {
+            const reader = new LocalDirectoryFileReader(rulesDir);
+            const domains = await reader.listRuleFiles();
+
+            expect(domains.sort()).toEqual(['cursor', 'guide', 'react']);
+        });
+
+        it('should throw when the directory does not exist', async () => {
+            const reader = new LocalDirectoryFileReader(path.join(rulesDir, 'missing'));
+
+            await expect(reader.listRuleFiles()).rejects.toThrow('Rules directory not found');
+        });
+    });
+
+    describe('readRuleFile', () => {
+        it('should read files with any supported extension', async () => {
+            const reader = new LocalDirectoryFileReader(rulesDir);
+
+            expect(await reader.readRuleFile('react')).toContain('# React Rules');
+            expect(await reader.readRuleFile('cursor')).toContain('description: Cursor rules');
+            expect(await reader.readRuleFile('guide')).toBe('# Guide');
+        });
+
+        it('should throw for unknown domains', async () => {
+            const reader = new LocalDirectoryFileReader(rulesDir);
+
+            await expect(reader.readRuleFile('missing')).rejects.toThrow('Rule file not found for domain: missing');
+        });
+
+        it('should reject domains that escape the rules directory', async () => {
+            const reader = new LocalDirectoryFileReader(rulesDir);
+
+            await expect(reader.readRuleFile('../secret')).rejects.toThrow('Invalid domain name');
+        });
+    });
+
+    describe('ruleExists', () => {
+        it('should report existing and missing rules', async () => {
+            const reader = new LocalDirectoryFileReader(rulesDir);
+
+            expect(await reader.ruleExists('guide')).toBe(true);
+            expect(await reader.ruleExists('missing')).toBe(false);
+        });
+    });
+
+    describe('parseRuleContent', () => {
+        it('should parse metadata the same way as the GitHub reader', async () => {
+            const reader = new LocalDirectoryFileReader(rulesDir);
+
+            const react = reader.parseRuleContent(await reader.readRuleFile('react'), 'react');
+            const cursor = reader.parseRuleContent(await reader.readRuleFile('cursor'), 'cursor');
+
+            expect(react.description).toBe('React conventions');
+            expect(cursor.description).toBe('Cursor rules');
+            expect(cursor.content).toBe('# Cursor');
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { promises as fs, watch } from 'fs';
+import * as path from 'path';
+import { BaseRuleFileReader, RuleFileEntry, RuleFileOptions } from './rule-source.js';
+import { ErrorHandler, Logger } from './error-handler.js';
+
+export class LocalDirectoryFileReader extends BaseRuleFileReader {
+  readonly name: string;
+  readonly remote = false;
+  private rootDirectory: string;
+
+  constructor(rootDirectory?: string, options: RuleFileOptions = {}) {
+    super(options);
+    const directory = rootDirectory || process.env.RULES_DIRECTORY || '';
+    if (!directory) throw new Error('RULES_DIRECTORY environment variable is required for a local rule source');
+
+    this.rootDirectory = path.resolve(directory);
+    this.name = `local:${this.rootDirectory}`;
+  }
+
+  async readRuleFile(domain: string): Promise<string> {
+    for (const ext of this.extensions) {
+      const filePath = this.resolveRulePath(domain, ext);
+
+      try {
+        return await fs.readFile(filePath, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw ErrorHandler.handleFileSystemError(error, domain);
+      }
+    }
+
+    throw ErrorHandler.handleFileSystemError(Object.assign(new Error(`Rule file not found for domain: ${domain}`), { code: 'ENOENT' }), domain);
+  }
+
+  async listRuleFiles(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.rootDirectory, { withFileTypes: true });
+      return this.extractDomainsFromDirectoryData(entries.map(entry => ({ type: entry.isFile() ? 'file' : 'dir', name: entry.name })));
+    } catch (error) {
+      throw ErrorHandler.handleFileSystemError(error);
+    }
+  }
+
+  async listRuleFileEntries(): Promise<RuleFileEntry[]> {
+    try {
+      const entries = await fs.readdir(this.rootDirectory, { withFileTypes: true });
+      const files = await Promise.all(entries.filter(entry => entry.isFile() && this.isRuleFile(entry.name)).map(async (entry) => {
+        const filePath = path.join(this.rootDirectory, entry.name);
+        return { domain: this.extractDomainFromFilename(entry.name), path: path.relative(process.cwd(), filePath).split(path.sep).join('/'), size: (await fs.stat(filePath)).size };
+      }));
+
+      const extensionRank = (file: RuleFileEntry) => this.extensions.findIndex(ext => file.path.endsWith(ext));
+      return files.sort((a, b) => extensionRank(a) - extensionRank(b));
+    } catch (error) {
+      throw ErrorHandler.handleFileSystemError(error);
+    }
+  }
+
+  async ruleExists(domain: string): Promise<boolean> {
+    for (const ext of this.extensions) {
+      try {
+        const stats = await fs.stat(this.resolveRulePath(domain, ext));
+        if (stats.isFile()) return true;
+      } catch { /* Continue to next extension */ }
+    }
+
+    return false;
+  }
+
+  watch(listener: (domains: string[]) => void): () => void {
+    const watcher = watch(this.rootDirectory, (_event, filename) => {
+      if (!filename) return listener([]);
+      if (this.isRuleFile(filename)) listener([this.extractDomainFromFilename(filename)]);
+    });
+    watcher.on('error', error => Logger.warn(`Stopped watching ${this.rootDirectory}`, { error: error.message }));
+    return () => watcher.close();
+  }
+
+  private resolveRulePath(domain: string, ext: string): string {
+    if (!this.isValidDomain(domain)) throw ErrorHandler.handleDomainValidationError(domain);
+
+    const filePath = path.resolve(this.rootDirectory, `${domain}${ext}`);
+    if (path.dirname(filePath) !== this.rootDirectory) throw ErrorHandler.handleDomainValidationError(domain);
+    return filePath;
+  }
+
+  hasAuthToken(): boolean { return false; }
+
+  getRepositoryInfo(): string { return `${this.rootDirectory} (local directory)`; }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { extractSections, flattenOutline, parseOutline } from './markdown-outline.js';
+
+describe('markdown outline', () => {
+    const content = [
+        '# Security Rules',
+        'Intro',
+        '## Input Validation',
+        'Validate everything.',
+        '### SQL Injection',
+        'Use parameterized queries.',
+        '```sql',
+        '# not a heading',
+        '```',
+        '### XSS',
+        'Escape output.',
+        '## Secrets',
+        'Never commit secrets.'
+    ].join('\n');
+
+    describe('parseOutline', () => {
+        it('should build a heading tree ignoring fenced code', () => {
+            const outline = parseOutline(content);
+
+            expect(outline).toHaveLength(1);
+            expect(outline[0].title).toBe('Security Rules');
+            expect(outline[0].children.map(c => c.title)).toEqual(['Input Validation', 'Secrets']);
+            expect(outline[0].children[0].children.map(c => c.slug)).toEqual(['sql-injection', 'xss']);
+        });
+
+        it('should flatten the tree with heading paths', () => {
+            const paths = flattenOutline(parseOutline(content)).map(node => node.path);
+
+            expect(paths).toContain('Security Rules > Input Validation > SQL Injection');
+        });
+    });
+
+    describe('extractSections', () => {
+        it('should return a heading with its subtree', () => {
+            const { content: section, matched } = extractSections(content, ['Input Validation']);
+
+            expect(matched).toEqual(['Input Validation']);
+            expect(section).toContain('### SQL Injection');
+            expect(section).toContain('### XSS');
+            expect(section).not.toContain('Never commit secrets');
+        });
+
+        it('should match by slug, path and leading hashes and avoid duplicating nested matches', () => {
+            const { content: section, matched, unmatched } = extractSections(content, ['sql-injection', '## Input Validation > XSS', 'Input Validation', 'Missing']);
+
+            expect(matched).toEqual(['sql-injection', '## Input Validation > XSS', 'Input Validation']);
+            expect(unmatched).toEqual(['Missing']);
+            expect(section.match(/### SQL Injection/g)).toHaveLength(1);
+        });
+
+        it('should return nothing when no selector matches', () => {
+            const selection = extractSections(content, ['Performance']);
+
+            expect(selection).toEqual({ content: '', matched: [], unmatched: ['Performance'] });
+        });
+    });
+});
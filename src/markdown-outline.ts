@@ -0,0 +1,106 @@
+export interface MarkdownHeading {
+  title: string;
+  level: number;
+  line: number;
+}
+
+export interface OutlineNode {
+  title: string;
+  level: number;
+  slug: string;
+  line: number;
+  endLine: number;
+  children: OutlineNode[];
+}
+
+export interface SectionSelection {
+  content: string;
+  matched: string[];
+  unmatched: string[];
+}
+
+export const slugify = (title: string): string =>
+  title.toLowerCase().replace(/[`*_~[\]()]/g, '').replace(/[^a-z0-9\s-]/g, '').trim().replace(/\s+/g, '-');
+
+export const parseHeadings = (content: string): MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  let fence: string | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      return;
+    }
+
+    const headingMatch = !fence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) headings.push({ title: headingMatch[2], level: headingMatch[1].length, line: index });
+  });
+
+  return headings;
+};
+
+export const parseOutline = (content: string): OutlineNode[] => {
+  const totalLines = content.split(/\r?\n/).length;
+  const headings = parseHeadings(content);
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+
+  headings.forEach((heading, index) => {
+    const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+    const node: OutlineNode = { title: heading.title, level: heading.level, slug: slugify(heading.title), line: heading.line, endLine: next ? next.line : totalLines, children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  });
+
+  return roots;
+};
+
+export const flattenOutline = (nodes: OutlineNode[], parents: string[] = []): Array<OutlineNode & { path: string }> =>
+  nodes.flatMap(node => {
+    const path = [...parents, node.title];
+    return [{ ...node, path: path.join(' > ') }, ...flattenOutline(node.children, path)];
+  });
+
+const normalizeSelector = (selector: string): string => selector.replace(/^#+\s*/, '').trim().toLowerCase();
+
+const matchesSelector = (node: OutlineNode & { path: string }, selector: string): boolean => {
+  const normalized = normalizeSelector(selector);
+  if (node.title.toLowerCase() === normalized || node.slug === slugify(normalized)) return true;
+
+  const pathParts = normalized.split(/\s*[>/]\s*/);
+  return pathParts.length > 1 && node.path.toLowerCase().split(' > ').slice(-pathParts.length).join(' > ') === pathParts.join(' > ');
+};
+
+export const extractSections = (content: string, selectors: string[]): SectionSelection => {
+  const lines = content.split(/\r?\n/);
+  const nodes = flattenOutline(parseOutline(content));
+  const ranges: Array<{ line: number; endLine: number }> = [];
+  const matched: string[] = [];
+  const unmatched: string[] = [];
+
+  for (const selector of selectors) {
+    const selectedNodes = nodes.filter(node => matchesSelector(node, selector));
+    if (selectedNodes.length === 0) {
+      unmatched.push(selector);
+      continue;
+    }
+
+    matched.push(selector);
+    ranges.push(...selectedNodes.map(({ line, endLine }) => ({ line, endLine })));
+  }
+
+  const outermostRanges = ranges
+    .sort((a, b) => a.line - b.line || b.endLine - a.endLine)
+    .filter((range, index, sorted) => !sorted.slice(0, index).some(other => other.line <= range.line && other.endLine >= range.endLine));
+
+  return {
+    content: outermostRanges.map(({ line, endLine }) => lines.slice(line, endLine).join('\n').trim()).join('\n\n'),
+    matched,
+    unmatched
+  };
+};
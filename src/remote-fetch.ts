@@ -0,0 +1,120 @@
+import { DiskCache } from './disk-cache.js';
+import { HttpClient, getSharedHttpClient, parseRetryAfter } from './http-client.js';
+import { RateLimitStatus, UpstreamError } from './rule-source.js';
+
+export interface RevalidatingFetcherOptions {
+  provider: string;
+  diskCache: DiskCache | null;
+  getHeaders: (etag?: string) => Record<string, string>;
+  rateLimitStatuses?: number[];
+  httpClient?: HttpClient;
+}
+
+export interface FetchResult<T> {
+  data: T;
+  stale: boolean;
+}
+
+export class RateLimitError extends Error {
+  constructor(provider: string, status?: number) {
+    super(`${provider} API rate limit exceeded${status ? ` (${status})` : ''}`);
+  }
+}
+
+const getRateLimitReset = (response: Response, rateLimitStatuses: number[]): number | undefined => {
+  const reset = response.headers.get('x-ratelimit-reset') ?? response.headers.get('ratelimit-reset');
+  const remaining = response.headers.get('x-ratelimit-remaining') ?? response.headers.get('ratelimit-remaining');
+  if (reset && (response.status === 429 || remaining === '0')) return parseInt(reset) * 1000;
+
+  const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+  return rateLimitStatuses.includes(response.status) && retryAfter ? Date.now() + retryAfter : undefined;
+};
+
+const toNumber = (value: string | null): number | undefined => value !== null && value.trim() && Number.isFinite(Number(value)) ? Number(value) : undefined;
+
+const getRateLimitHeaders = (response: Response): RateLimitStatus | undefined => {
+  const header = (name: string) => response.headers.get(`x-ratelimit-${name}`) ?? response.headers.get(`ratelimit-${name}`);
+  const limit = toNumber(header('limit'));
+  const remaining = toNumber(header('remaining'));
+  const reset = toNumber(header('reset'));
+  if (remaining === undefined) return undefined;
+  return { ...(limit !== undefined && { limit }), remaining, ...(reset !== undefined && { resetAt: new Date(reset * 1000).toISOString() }) };
+};
+
+// Serves fresh disk cache entries directly, revalidates older ones with their ETag, and falls
+// back to the cached copy (marked stale) when the API is unreachable, failing or rate limited.
+export class RevalidatingFetcher {
+  private readonly options: RevalidatingFetcherOptions;
+  private readonly httpClient: HttpClient;
+  private rateLimitResetTime = 0;
+  private rateLimit: RateLimitStatus | undefined;
+  private lastError: UpstreamError | undefined;
+  private invalidatedAt = 0;
+
+  constructor(options: RevalidatingFetcherOptions) {
+    this.options = options;
+    this.httpClient = options.httpClient ?? getSharedHttpClient();
+  }
+
+  async fetch<T>(url: string, ttl: number, transform: (data: any) => T, parse: 'json' | 'text' = 'json'): Promise<FetchResult<T> | null> {
+    const { provider, diskCache, rateLimitStatuses = [429] } = this.options;
+    const cached = await diskCache?.get<T>(url);
+    if (cached && cached.fetchedAt > this.invalidatedAt && Date.now() - cached.fetchedAt < ttl) return { data: cached.data, stale: false };
+
+    if (this.rateLimitResetTime > Date.now()) {
+      if (cached) return { data: cached.data, stale: true };
+      throw new RateLimitError(provider);
+    }
+
+    let response: Response;
+    try {
+      response = await this.httpClient.fetch(url, { headers: this.options.getHeaders(cached?.etag) });
+    } catch (error) {
+      this.recordError(error instanceof Error ? error.message : String(error));
+      if (cached) return { data: cached.data, stale: true };
+      throw error;
+    }
+
+    const rateLimitReset = getRateLimitReset(response, rateLimitStatuses);
+    if (rateLimitReset) this.rateLimitResetTime = rateLimitReset;
+    this.rateLimit = getRateLimitHeaders(response) ?? this.rateLimit;
+
+    if (response.status === 304 && cached) {
+      await diskCache?.set(url, { ...cached, fetchedAt: Date.now() });
+      return { data: cached.data, stale: false };
+    }
+
+    if (response.ok) {
+      const data = transform(parse === 'text' ? await response.text() : await response.json());
+      await diskCache?.set(url, { data, etag: response.headers.get('etag') || undefined, fetchedAt: Date.now() });
+      return { data, stale: false };
+    }
+
+    if (response.status === 404) {
+      if (cached) await diskCache?.delete(url);
+      return null;
+    }
+
+    const error = rateLimitStatuses.includes(response.status) ? new RateLimitError(provider, response.status) : new Error(`${provider} API error: ${response.status} ${response.statusText}`);
+    this.recordError(error.message);
+    if (cached) return { data: cached.data, stale: true };
+    throw error;
+  }
+
+  getRateLimit(): RateLimitStatus | undefined {
+    const pausedUntil = this.rateLimitResetTime > Date.now() ? new Date(this.rateLimitResetTime).toISOString() : undefined;
+    return this.rateLimit || pausedUntil ? { ...this.rateLimit, ...(pausedUntil && { pausedUntil }) } : undefined;
+  }
+
+  getLastError(): UpstreamError | undefined {
+    return this.lastError;
+  }
+
+  invalidate(): void {
+    this.invalidatedAt = Date.now();
+  }
+
+  private recordError(message: string): void {
+    this.lastError = { time: new Date().toISOString(), message };
+  }
+}
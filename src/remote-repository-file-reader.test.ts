@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { GitLabReaderOptions, GitLabRepositoryFileReader } from './gitlab-repository-file-reader.js';
+import { BitbucketReaderOptions, BitbucketRepositoryFileReader } from './bitbucket-repository-file-reader.js';
+import { GitRepositoryFileReader } from './git-repository-file-reader.js';
+import { parseRuleSourceSpec } from './rule-source-factory.js';
+import { DiskCache } from './disk-cache.js';
+import { HttpClient } from './http-client.js';
+
+describe('remote repository readers', () => {
+    let server: Server;
+    let baseUrl: string;
+    let directory: string;
+    let failing = false;
+    let rateLimited = false;
+    let requests: Array<{ url: string; headers: IncomingMessage['headers'] }> = [];
+    const originalEnv = { GITLAB_TOKEN: process.env.GITLAB_TOKEN, BITBUCKET_USERNAME: process.env.BITBUCKET_USERNAME, BITBUCKET_APP_PASSWORD: process.env.BITBUCKET_APP_PASSWORD };
+
+    const shaOf = (content: string) => createHash('sha1').update(content).digest('hex');
+    const head = shaOf('commit-1');
+    const files: Record<string, string> = {
+        'rules/frontend/vue.mdc': '# Frontend Vue',
+        'rules/react.md': '# React',
+        'rules/README.md': '# Readme',
+        'docs/guide.md': '# Guide',
+        ...Object.fromEntries(Array.from({ length: 120 }, (_, i) => [`rules/assets/image-${i}.png`, `image ${i}`]))
+    };
+    const ruleFiles = (prefix: string) => Object.keys(files).filter(file => file.startsWith(prefix));
+
+    const createGitLabReader = (options: GitLabReaderOptions = {}) => new GitLabRepositoryFileReader('group/sub/project', 'rules', 'main', { baseUrl: `${baseUrl}/gitlab`, diskCache: null, httpClient: new HttpClient({ retries: 0 }), ...options });
+    const createBitbucketReader = (options: BitbucketReaderOptions = {}) => new BitbucketRepositoryFileReader('team', 'repo', 'rules', '', { apiUrl: `${baseUrl}/bitbucket/2.0`, webUrl: `${baseUrl}/bitbucket`, diskCache: null, httpClient: new HttpClient({ retries: 0 }), ...options });
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            const url = new URL(req.url!, 'http://localhost');
+            const respond = (status: number, body?: unknown, headers: Record<string, string> = {}) => {
+                res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(typeof body === 'string' ? body : JSON.stringify(body));
+            };
+            requests.push({ url: req.url!, headers: req.headers });
+
+            if (failing) return respond(503, { message: 'Service unavailable' });
+
+            const gitlabProject = '/gitlab/api/v4/projects/group%2Fsub%2Fproject';
+            if (url.pathname === `${gitlabProject}/repository/commits/main`) return respond(200, { id: head });
+            if (url.pathname === `${gitlabProject}/repository/tree` && url.searchParams.get('ref') === head) {
+                const page = Number(url.searchParams.get('page'));
+                const entries = ruleFiles(`${url.searchParams.get('path')}/`).map(file => ({ path: file, type: 'blob', id: shaOf(files[file]) }));
+                return respond(200, entries.slice((page - 1) * 100, page * 100));
+            }
+            const blobMatch = url.pathname.match(/^\/gitlab\/api\/v4\/projects\/group%2Fsub%2Fproject\/repository\/blobs\/([0-9a-f]+)\/raw$/);
+            if (blobMatch) {
+                if (rateLimited) return respond(429, { message: 'Too many requests' }, { 'Retry-After': '60' });
+                const content = Object.values(files).find(value => shaOf(value) === blobMatch[1]);
+                return content === undefined ? respond(404, { message: 'Not Found' }) : respond(200, content);
+            }
+            if (url.pathname === `/gitlab/group/sub/project/-/raw/${head}/rules/react.md`) return respond(200, '# React (raw)');
+
+            const bitbucketRepo = '/bitbucket/2.0/repositories/team/repo';
+            if (url.pathname === bitbucketRepo) return respond(200, { mainbranch: { name: 'trunk' } });
+            if (url.pathname === `${bitbucketRepo}/commit/trunk`) return respond(200, { hash: head });
+            if (url.pathname === `${bitbucketRepo}/src/${head}/rules/` && url.searchParams.get('max_depth')) {
+                const values = ruleFiles('rules/').map(file => ({ path: file, type: 'commit_file', size: files[file].length }));
+                const page = Number(url.searchParams.get('page') || 1);
+                return respond(200, { values: [{ path: 'rules/frontend', type: 'commit_directory' }, ...values.slice((page - 1) * 100, page * 100)], ...(page * 100 < values.length && { next: `${baseUrl}${url.pathname}?max_depth=10&pagelen=100&page=${page + 1}` }) });
+            }
+            const sourceMatch = url.pathname.match(new RegExp(`^${bitbucketRepo}/src/${head}/(.+)$`));
+            if (sourceMatch && files[sourceMatch[1]] !== undefined) return respond(200, files[sourceMatch[1]]);
+
+            respond(404, { message: 'Not Found' });
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        process.env.GITLAB_TOKEN = 'gitlab-token';
+        process.env.BITBUCKET_USERNAME = 'bot';
+        process.env.BITBUCKET_APP_PASSWORD = 'app-password';
+    });
+
+    afterAll(async () => {
+        for (const [name, value] of Object.entries(originalEnv)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(async () => {
+        failing = false;
+        rateLimited = false;
+        requests = [];
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-remote-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    describe('GitLabRepositoryFileReader', () => {
+        it('should list nested domains across tree pages of a self-hosted instance', async () => {
+            const reader = createGitLabReader();
+
+            expect(await reader.listRuleFiles()).toEqual(['frontend/vue', 'react']);
+            expect(reader.name).toBe(`gitlab:${baseUrl}/gitlab/group/sub/project/-/rules@main`);
+            expect(requests.filter(r => r.url.includes('/repository/tree')).map(r => new URL(r.url, baseUrl).searchParams.get('page'))).toEqual(['1', '2']);
+            expect(requests.every(r => r.headers['private-token'] === 'gitlab-token')).toBe(true);
+        });
+
+        it('should read files by blob SHA and report the resolved commit', async () => {
+            const file = await createGitLabReader().readRuleFileDetails('frontend/vue');
+
+            expect(file).toEqual({ content: '# Frontend Vue', path: 'rules/frontend/vue.mdc', sha: shaOf('# Frontend Vue'), commit: head });
+        });
+
+        it('should fall back to the raw file URL when the API is rate limited', async () => {
+            rateLimited = true;
+
+            expect(await createGitLabReader().readRuleFile('react')).toBe('# React (raw)');
+        });
+
+        it('should serve stale cached content when GitLab fails', async () => {
+            const options = { diskCache: new DiskCache(directory), directoryCacheTtl: 0, fileCacheTtl: 0 };
+            await createGitLabReader(options).readRuleFile('react');
+            failing = true;
+
+            const reader = createGitLabReader(options);
+
+            expect(await reader.listRuleFiles()).toEqual(['frontend/vue', 'react']);
+            expect(await reader.readRuleFileDetails('react')).toMatchObject({ content: '# React', commit: head, stale: true });
+        });
+    });
+
+    describe('BitbucketRepositoryFileReader', () => {
+        it('should resolve the main branch, follow next links and read with app password credentials', async () => {
+            const reader = createBitbucketReader();
+
+            expect(await reader.listRuleFiles()).toEqual(['frontend/vue', 'react']);
+            expect(await reader.readRuleFileDetails('react')).toEqual({ content: '# React', path: 'rules/react.md', commit: head });
+            expect(requests.filter(r => r.url.includes('max_depth'))).toHaveLength(2);
+            expect(requests.every(r => r.headers.authorization === `Basic ${Buffer.from('bot:app-password').toString('base64')}`)).toBe(true);
+        });
+    });
+
+    describe('parseRuleSourceSpec', () => {
+        it('should parse GitLab, Bitbucket and git source specs', () => {
+            expect(parseRuleSourceSpec('gitlab:group/project/rules@v1').name).toBe('gitlab:group/project/-/rules@v1');
+            expect(parseRuleSourceSpec('gitlab:https://git.example.com/group/sub/project/-/rules').name).toBe('gitlab:https://git.example.com/group/sub/project/-/rules');
+            expect(parseRuleSourceSpec('bitbucket:team/repo/rules@main').name).toBe('bitbucket:team/repo/rules@main');
+            expect(parseRuleSourceSpec('git:git@example.com:team/rules.git#v2:rules').name).toBe('git:git@example.com:team/rules.git#v2:rules');
+            expect(parseRuleSourceSpec('git:https://example.com/rules.git')).toBeInstanceOf(GitRepositoryFileReader);
+            expect(() => parseRuleSourceSpec('gitlab:project')).toThrow('Invalid GitLab rule source');
+        });
+    });
+});
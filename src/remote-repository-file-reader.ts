@@ -0,0 +1,194 @@
+import { BaseRuleFileReader, RuleFile, RuleFileEntry, RuleFileOptions, SourceStatus } from './rule-source.js';
+import { DiskCache, DEFAULT_CACHE_TTL, DEFAULT_DIRECTORY_CACHE_TTL, getTtlFromEnv } from './disk-cache.js';
+import { isCommitSha } from './git-ref.js';
+import { FetchResult, RateLimitError, RevalidatingFetcher } from './remote-fetch.js';
+import { CircuitOpenError, HttpClient, getSharedHttpClient } from './http-client.js';
+
+export interface RemoteReaderOptions extends RuleFileOptions {
+  token?: string;
+  httpClient?: HttpClient;
+  diskCache?: DiskCache | null;
+  fileCacheTtl?: number;
+  directoryCacheTtl?: number;
+}
+
+export interface RemoteTreeFile {
+  path: string;
+  sha?: string;
+  size?: number;
+}
+
+export const MAX_LISTING_PAGES = 50;
+
+// Shared listing, reading and stale-cache fallback for hosts whose APIs expose a recursive
+// file tree and raw file contents. Subclasses only build the provider's URLs.
+export abstract class RemoteRepositoryFileReader extends BaseRuleFileReader {
+  abstract readonly name: string;
+  readonly remote = true;
+  protected readonly provider: string;
+  protected readonly path: string;
+  protected readonly ref: string;
+  protected readonly token?: string;
+  protected readonly diskCache: DiskCache | null;
+  protected readonly fileCacheTtl: number;
+  protected readonly directoryCacheTtl: number;
+  protected readonly fetcher: RevalidatingFetcher;
+  protected readonly httpClient: HttpClient;
+  private fileIndex: { files: Map<string, RemoteTreeFile>, entries: RuleFileEntry[], timestamp: number, stale: boolean } | null = null;
+  private resolvedCommit: { commit: string, timestamp: number, stale: boolean } | null = null;
+
+  constructor(provider: string, path: string, ref: string, token: string | undefined, options: RemoteReaderOptions) {
+    super(options);
+    this.provider = provider;
+    this.path = path.replace(/^\/+|\/+$/g, '');
+    this.ref = ref;
+    this.token = token;
+    this.diskCache = options.diskCache === undefined ? DiskCache.fromEnv() : options.diskCache;
+    this.fileCacheTtl = options.fileCacheTtl ?? getTtlFromEnv('RULES_CACHE_TTL', DEFAULT_CACHE_TTL);
+    this.directoryCacheTtl = options.directoryCacheTtl ?? getTtlFromEnv('RULES_DIRECTORY_CACHE_TTL', DEFAULT_DIRECTORY_CACHE_TTL);
+    this.httpClient = options.httpClient ?? getSharedHttpClient();
+    this.fetcher = new RevalidatingFetcher({ provider, diskCache: this.diskCache, getHeaders: etag => this.getApiHeaders(etag), httpClient: this.httpClient });
+  }
+
+  protected abstract getApiHeaders(etag?: string): Record<string, string>;
+  protected abstract fetchTree(ref: string): Promise<FetchResult<RemoteTreeFile[]> | null>;
+  protected abstract fetchFileContent(file: RemoteTreeFile, ref: string, ttl: number): Promise<FetchResult<string> | null>;
+  protected abstract fetchCommitSha(ref: string): Promise<FetchResult<string> | null>;
+  protected abstract getRawUrl(file: RemoteTreeFile, ref: string): string;
+  abstract withRef(ref: string): RemoteRepositoryFileReader;
+  abstract getRepositoryInfo(): string;
+
+  async readRuleFile(domain: string): Promise<string> {
+    return (await this.readRuleFileDetails(domain)).content;
+  }
+
+  async readRuleFileDetails(domain: string): Promise<RuleFile> {
+    await this.listRuleFiles();
+    const file = this.fileIndex?.files.get(domain);
+    if (!file) throw new Error(`Rule file not found for domain: ${domain} (not present under ${this.path || 'the repository root'} at ${this.ref || 'the default branch'})`);
+
+    const ref = await this.getRef();
+    const commit = isCommitSha(this.ref) ? this.ref : this.resolvedCommit?.commit;
+    const { content, stale } = await this.readIndexedFile(file, ref);
+    return {
+      content, path: file.path, ...(file.sha && { sha: file.sha }), ...(commit && { commit }),
+      ...((stale || this.fileIndex?.stale || this.resolvedCommit?.stale) && { stale: true })
+    };
+  }
+
+  private async readIndexedFile(file: RemoteTreeFile, ref: string): Promise<{ content: string, stale: boolean }> {
+    try {
+      const result = await this.fetchFileContent(file, ref, isCommitSha(ref) ? Infinity : this.fileCacheTtl);
+      if (!result) throw new Error(`Rule file not found: ${file.path}`);
+      return { content: result.data, stale: result.stale };
+    } catch (error) {
+      if (!(error instanceof RateLimitError || error instanceof CircuitOpenError)) throw error;
+    }
+
+    const response = await this.httpClient.fetch(this.getRawUrl(file, ref), { headers: { 'User-Agent': 'agent-rules-mcp', ...this.getAuthHeaders() } });
+    if (!response.ok) throw new Error(`Raw ${this.provider} error: ${response.status} ${response.statusText}`);
+    return { content: await response.text(), stale: false };
+  }
+
+  async listRuleFiles(): Promise<string[]> {
+    if (this.fileIndex && (Date.now() - this.fileIndex.timestamp) < this.directoryCacheTtl) return Array.from(this.fileIndex.files.keys());
+
+    try {
+      const result = await this.fetchTree(await this.getRef());
+      if (!result) throw new Error(`Rule path ${this.path || '/'} not found in ${this.name}`);
+      this.fileIndex = { ...this.indexRuleFiles(result.data, this.path), stale: result.stale, timestamp: Date.now() };
+    } catch (error) {
+      if (!this.fileIndex) throw error;
+      this.fileIndex.stale = true;
+    }
+
+    return Array.from(this.fileIndex.files.keys());
+  }
+
+  async listRuleFileEntries(): Promise<RuleFileEntry[]> {
+    await this.listRuleFiles();
+    return this.fileIndex?.entries ?? [];
+  }
+
+  async resolveCommit(): Promise<string | undefined> {
+    if (isCommitSha(this.ref)) return this.ref;
+    if (this.resolvedCommit && (Date.now() - this.resolvedCommit.timestamp) < this.directoryCacheTtl) return this.resolvedCommit.commit;
+
+    const cacheKey = `${this.name}#commit`;
+    try {
+      const result = await this.fetchCommitSha(this.ref);
+      if (!result) throw new Error(`Ref not found in ${this.name}: ${this.ref || 'default branch'}`);
+      this.resolvedCommit = { commit: result.data, timestamp: Date.now(), stale: result.stale };
+      if (!result.stale) await this.diskCache?.set(cacheKey, { data: result.data, fetchedAt: Date.now() });
+      return result.data;
+    } catch (error) {
+      const cached = this.resolvedCommit?.commit ?? (await this.diskCache?.get<string>(cacheKey))?.data;
+      if (!cached) return undefined;
+      this.resolvedCommit = { commit: cached, timestamp: Date.now(), stale: true };
+      return cached;
+    }
+  }
+
+  protected async getRef(): Promise<string> {
+    return (await this.resolveCommit()) || this.ref || 'HEAD';
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+
+  protected async fetchPages<T>(firstUrl: string, ttl: number, transform: (data: any, page: number) => { items: T[], next?: string }): Promise<FetchResult<T[]> | null> {
+    const items: T[] = [];
+    let stale = false;
+    let url: string | undefined = firstUrl;
+
+    for (let page = 1; url && page <= MAX_LISTING_PAGES; page++) {
+      const result: FetchResult<{ items: T[], next?: string }> | null = await this.fetcher.fetch(url, ttl, data => transform(data, page));
+      if (!result) return page === 1 ? null : { data: items, stale };
+      items.push(...result.data.items);
+      stale = stale || result.stale;
+      url = result.data.next;
+    }
+
+    return { data: items, stale };
+  }
+
+  async ruleExists(domain: string): Promise<boolean> {
+    try {
+      await this.listRuleFiles();
+      return this.fileIndex?.files.has(domain) ?? false;
+    } catch { return false; }
+  }
+
+  async getRevision(): Promise<string | undefined> {
+    return this.resolveCommit().catch(() => undefined);
+  }
+
+  async pollRevision(): Promise<string | undefined> {
+    if (this.resolvedCommit) this.resolvedCommit.timestamp = 0;
+    return this.getRevision();
+  }
+
+  hasAuthToken(): boolean { return !!this.token; }
+
+  getStatus(): Partial<SourceStatus> {
+    const commit = isCommitSha(this.ref) ? this.ref : this.resolvedCommit?.commit;
+    const rateLimit = this.fetcher.getRateLimit();
+    const lastError = this.fetcher.getLastError();
+    return {
+      auth: !this.token ? 'anonymous' : this.token.startsWith('Basic ') ? 'basic' : 'token', ref: this.ref || 'default branch', ...(commit && { commit }),
+      ...((this.resolvedCommit?.stale || this.fileIndex?.stale) && { stale: true }), ...(rateLimit && { rateLimit }), ...(lastError && { lastError })
+    };
+  }
+
+  invalidate(): void {
+    this.fetcher.invalidate();
+    if (this.fileIndex) this.fileIndex.timestamp = 0;
+    if (this.resolvedCommit) this.resolvedCommit.timestamp = 0;
+  }
+
+  protected describeRef(): string {
+    const commit = isCommitSha(this.ref) ? undefined : this.resolvedCommit?.commit;
+    return `ref: ${this.ref || 'default branch'}${commit ? ` at ${commit.slice(0, 12)}` : ''}`;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { composeRule, findIncludeDirectives } from './rule-composition.js';
+import { RuleContent } from './rule-source.js';
+
+const createReader = (rules: Record<string, Partial<RuleContent>>) => async (domain: string): Promise<RuleContent | null> =>
+    rules[domain] ? { domain, content: '', ...rules[domain] } : null;
+
+describe('rule composition', () => {
+    it('should find include directives outside code fences', () => {
+        const content = '<!-- include: react -->\n```md\n<!-- include: vue -->\n```\n  <!-- include: security#SQL Injection -->';
+
+        expect(findIncludeDirectives(content)).toEqual([
+            { line: 0, domain: 'react' },
+            { line: 4, domain: 'security', section: 'SQL Injection' }
+        ]);
+    });
+
+    it('should prepend extended rules and merge their metadata under the rule', async () => {
+        const read = createReader({
+            child: { content: '# Child', metadata: { extends: ['base'], tags: ['child'] } },
+            base: { content: '# Base\nShared', metadata: { tags: ['base'], priority: 1 }, source: 'org' }
+        });
+
+        const composed = await composeRule('child', read);
+
+        expect(composed?.rule).toMatchObject({
+            content: '# Base\nShared\n\n# Child',
+            metadata: { extends: ['base'], tags: ['child'], priority: 1 },
+            provenance: [{ domain: 'base', via: 'extends', source: 'org', startLine: 1, endLine: 2 }]
+        });
+        expect(composed?.dependencies).toEqual(['base']);
+    });
+
+    it('should shift provenance of nested includes', async () => {
+        const read = createReader({
+            top: { content: '# Top\n<!-- include: middle -->' },
+            middle: { content: '## Middle\n<!-- include: leaf -->' },
+            leaf: { content: '### Leaf', stale: true }
+        });
+
+        const composed = await composeRule('top', read);
+
+        expect(composed?.rule.content).toBe('# Top\n## Middle\n### Leaf');
+        expect(composed?.rule.stale).toBe(true);
+        expect(composed?.rule.provenance).toEqual([
+            { domain: 'middle', via: 'include', startLine: 2, endLine: 3 },
+            { domain: 'leaf', via: 'include', startLine: 3, endLine: 3 }
+        ]);
+        expect(composed?.dependencies).toEqual(['middle', 'leaf']);
+    });
+
+    it('should keep unresolved directives and report why', async () => {
+        const read = createReader({ rule: { content: '<!-- include: missing -->\n<!-- include: other#Nope -->' }, other: { content: '## Yes' } });
+
+        const composed = await composeRule('rule', read);
+
+        expect(composed?.rule.content).toBe('<!-- include: missing -->\n<!-- include: other#Nope -->');
+        expect(composed?.rule.compositionErrors).toEqual(['Rule missing referenced by rule was not found', 'Section "Nope" not found in rule other included by rule']);
+    });
+
+    it('should enforce the depth limit', async () => {
+        const read = createReader(Object.fromEntries(['r0', 'r1', 'r2', 'r3'].map((domain, index) => [domain, { content: `# ${domain}\n<!-- include: r${index + 1} -->` }])));
+
+        const composed = await composeRule('r0', read, 2);
+
+        expect(composed?.rule.content).toBe('# r0\n# r1\n# r2\n<!-- include: r3 -->');
+        expect(composed?.rule.compositionErrors).toEqual(['Rule composition exceeds the maximum depth of 2: r0 -> r1 -> r2 -> r3']);
+    });
+});
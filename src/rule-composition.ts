@@ -0,0 +1,125 @@
+import { extractSections } from './markdown-outline.js';
+import { RuleContent, RuleProvenance } from './rule-source.js';
+
+export const MAX_COMPOSITION_DEPTH = 5;
+
+export interface IncludeDirective {
+  line: number;
+  domain: string;
+  section?: string;
+}
+
+export interface ComposedRule {
+  rule: RuleContent;
+  dependencies: string[];
+}
+
+export type RuleReader = (domain: string) => Promise<RuleContent | null>;
+
+const INCLUDE_PATTERN = /^\s*<!--\s*include:\s*([^\s#]+)(?:#(.+?))?\s*-->\s*$/;
+
+export const findIncludeDirectives = (content: string): IncludeDirective[] => {
+  const directives: IncludeDirective[] = [];
+  let fence: string | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      return;
+    }
+
+    const includeMatch = !fence && line.match(INCLUDE_PATTERN);
+    if (includeMatch) directives.push({ line: index, domain: includeMatch[1], ...(includeMatch[2] && { section: includeMatch[2].trim() }) });
+  });
+
+  return directives;
+};
+
+export const hasCompositionDirectives = (rule: RuleContent): boolean =>
+  (rule.metadata?.extends?.length ?? 0) > 0 || findIncludeDirectives(rule.content).length > 0;
+
+export const composeRule = async (domain: string, read: RuleReader, maxDepth = MAX_COMPOSITION_DEPTH): Promise<ComposedRule | null> => {
+  const dependencies = new Set<string>();
+  const errors: string[] = [];
+
+  const compose = async (current: string, chain: string[]): Promise<RuleContent | null> => {
+    const rule = await read(current);
+    if (!rule || !hasCompositionDirectives(rule)) return rule;
+
+    const path = [...chain, current];
+    const resolve = async (dependency: string): Promise<RuleContent | null> => {
+      if (path.includes(dependency)) {
+        errors.push(`Circular rule composition: ${[...path, dependency].join(' -> ')}`);
+        return null;
+      }
+      if (path.length > maxDepth) {
+        errors.push(`Rule composition exceeds the maximum depth of ${maxDepth}: ${[...path, dependency].join(' -> ')}`);
+        return null;
+      }
+
+      dependencies.add(dependency);
+      const resolved = await compose(dependency, path);
+      if (!resolved) errors.push(`Rule ${dependency} referenced by ${current} was not found`);
+      return resolved;
+    };
+
+    const lines: string[] = [];
+    const provenance: RuleProvenance[] = [];
+    let stale = rule.stale;
+    const unresolved = new Set(rule.unresolvedVariables);
+    const append = (text: string, origin: Omit<RuleProvenance, 'startLine' | 'endLine'>, nested: RuleProvenance[] = []) => {
+      const offset = lines.length;
+      lines.push(...text.split(/\r?\n/));
+      provenance.push({ ...origin, startLine: offset + 1, endLine: lines.length }, ...nested.map(entry => ({ ...entry, startLine: entry.startLine + offset, endLine: entry.endLine + offset })));
+    };
+    const originOf = (dependency: RuleContent, via: RuleProvenance['via'], section?: string) => {
+      if (dependency.stale) stale = true;
+      dependency.unresolvedVariables?.forEach(name => unresolved.add(name));
+      return { domain: dependency.domain, via, ...(dependency.source && { source: dependency.source }), ...(dependency.commit && { commit: dependency.commit }), ...(section && { section }) };
+    };
+
+    const parents: RuleContent[] = [];
+    for (const parent of rule.metadata?.extends ?? []) {
+      const resolved = await resolve(parent);
+      if (!resolved) continue;
+
+      parents.push(resolved);
+      append(resolved.content, originOf(resolved, 'extends'), resolved.provenance);
+      lines.push('');
+    }
+
+    const includes = new Map(findIncludeDirectives(rule.content).map(directive => [directive.line, directive]));
+    const body = rule.content.split(/\r?\n/);
+    for (let index = 0; index < body.length; index++) {
+      const directive = includes.get(index);
+      const included = directive && await resolve(directive.domain);
+      if (!directive || !included) {
+        lines.push(body[index]);
+        continue;
+      }
+
+      if (!directive.section) {
+        append(included.content, originOf(included, 'include'), included.provenance);
+        continue;
+      }
+
+      const { content, unmatched } = extractSections(included.content, [directive.section]);
+      if (unmatched.length > 0) {
+        errors.push(`Section "${directive.section}" not found in rule ${directive.domain} included by ${current}`);
+        lines.push(body[index]);
+        continue;
+      }
+      append(content, originOf(included, 'include', directive.section));
+    }
+
+    const metadata = Object.assign({}, ...parents.map(parent => parent.metadata), rule.metadata);
+    return { ...rule, content: lines.join('\n').trimEnd(), ...(Object.keys(metadata).length > 0 && { metadata }), provenance, ...(stale && { stale: true }), ...(unresolved.size > 0 && { unresolvedVariables: Array.from(unresolved) }) };
+  };
+
+  const rule = await compose(domain, []);
+  if (!rule) return null;
+
+  return { rule: { ...rule, ...(errors.length > 0 && { compositionErrors: errors }) }, dependencies: Array.from(dependencies) };
+};
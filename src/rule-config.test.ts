@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { loadRulesConfig, validateRulesConfig } from './rule-config.js';
+import { createRuleSources } from './rule-source-factory.js';
+import { createServer, resolveEnabledTools } from './server.js';
+import { RuleManager } from './rule-manager.js';
+import { Logger } from './error-handler.js';
+
+describe('rule config', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-config-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should report every schema and source error with its location', () => {
+        const errors = validateRulesConfig({
+            sources: ['github:owner/repo', { type: 'github', repository: 'owner', ref: '' }, { type: 'git', repository: 'a/b' }, { type: 'svn' }, 42],
+            cache: { ttl: -1 },
+            tools: { enabled: ['get_rules'], disabled: ['list_rules'] },
+            variables: { nested: { a: 1 } },
+            unknown: true
+        });
+
+        expect(errors).toEqual([
+            'sources[1].ref: must not be empty',
+            'sources[3].type: must be one of github, gitlab, bitbucket, git, local, pack',
+            'sources[4]: must be string or object',
+            'cache.ttl: must be at least 0',
+            'unknown: unknown property',
+            'variables: template variables must be strings, numbers or booleans: nested',
+            'sources[1].repository: expected <owner>/<repo>',
+            'sources[2].url: is required for git sources',
+            'sources[2].repository: is not supported by git sources',
+            'tools: set either enabled or disabled, not both'
+        ]);
+        expect(validateRulesConfig({ sources: ['local:./rules', { type: 'gitlab', repository: 'group/sub/project', url: 'https://git.example.com', tokenEnv: 'GITLAB_RULES_TOKEN' }] })).toEqual([]);
+    });
+
+    it('should load the project config and build sources relative to it', async () => {
+        await fs.mkdir(path.join(directory, 'rules'));
+        await fs.writeFile(path.join(directory, 'rules', 'react.md'), '# React');
+        await fs.writeFile(path.join(directory, 'rules', 'notes.txt'), 'Notes');
+        await fs.writeFile(path.join(directory, 'rules', 'draft.md'), '# Draft');
+        await fs.writeFile(path.join(directory, 'agent-rules.config.yaml'), [
+            'sources:',
+            '  - type: local',
+            '    path: rules',
+            '    extensions: [".md", ".txt"]',
+            '    skip: [draft.md]',
+            'variables:',
+            '  nodeVersion: 22'
+        ].join('\n'));
+
+        const { file, config } = loadRulesConfig(undefined, directory);
+        const [source] = createRuleSources({ config });
+
+        expect(file).toBe(path.join(directory, 'agent-rules.config.yaml'));
+        expect(source.name).toBe(`local:${path.join(directory, 'rules')}`);
+        expect((await source.listRuleFiles()).sort()).toEqual(['notes', 'react']);
+        expect(await source.readRuleFile('notes')).toBe('Notes');
+        expect(config.variables).toEqual({ nodeVersion: 22 });
+    });
+
+    it('should let an explicit rules directory override configured and environment sources', () => {
+        const previous = process.env.RULE_SOURCES;
+        process.env.RULE_SOURCES = 'github:owner/repo';
+        try {
+            const sources = createRuleSources({ rulesDirectory: directory, config: { sources: ['gitlab:group/project'] } });
+
+            expect(sources.map(source => source.name)).toEqual([`local:${directory}`]);
+            expect(createRuleSources().map(source => source.name)).toEqual(['github:owner/repo']);
+        } finally {
+            if (previous === undefined) delete process.env.RULE_SOURCES;
+            else process.env.RULE_SOURCES = previous;
+        }
+    });
+
+    it('should resolve string sources relative to the config file and warn about unset token variables', async () => {
+        await fs.mkdir(path.join(directory, 'rules'));
+        await fs.writeFile(path.join(directory, 'agent-rules.config.json'), JSON.stringify({ sources: ['local:./rules', { type: 'bitbucket', repository: 'team/rules', tokenEnv: 'MISSING_RULES_TOKEN' }] }));
+        const previous = process.env.BITBUCKET_TOKEN;
+        process.env.BITBUCKET_TOKEN = 'fallback-token';
+        const warn = vi.spyOn(Logger, 'warn').mockImplementation(() => {});
+        try {
+            const { config } = loadRulesConfig(undefined, directory);
+            const [local, bitbucket] = createRuleSources({ config });
+
+            expect(config.sources?.[0]).toBe(`local:${path.join(directory, 'rules')}`);
+            expect(local.name).toBe(`local:${path.join(directory, 'rules')}`);
+            expect(bitbucket.hasAuthToken()).toBe(true);
+            expect(warn).toHaveBeenCalledWith('MISSING_RULES_TOKEN is not set, so the bitbucket source team/rules falls back to its default credentials', { tokenEnv: 'MISSING_RULES_TOKEN' });
+        } finally {
+            warn.mockRestore();
+            if (previous === undefined) delete process.env.BITBUCKET_TOKEN;
+            else process.env.BITBUCKET_TOKEN = previous;
+        }
+    });
+
+    it('should fail clearly for missing or invalid config files', async () => {
+        await fs.writeFile(path.join(directory, 'agent-rules.config.json'), '{"sources": [{"type": "local"}]}');
+
+        expect(() => loadRulesConfig('missing.json', directory)).toThrow('Configuration file not found: missing.json');
+        expect(() => loadRulesConfig(undefined, directory)).toThrow(`Invalid configuration in ${path.join(directory, 'agent-rules.config.json')}:\n  - sources[0].path: is required for local sources`);
+    });
+
+    it('should only expose enabled tools', async () => {
+        expect(() => resolveEnabledTools({ disabled: ['delete_rules'] })).toThrow('Unknown tool in configuration: delete_rules');
+
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer(new RuleManager(createRuleSources({ rulesDirectory: directory }), { variables: {} }), { tools: resolveEnabledTools({ enabled: ['list_rules', 'get_rules'] }) }).connect(serverTransport);
+        await client.connect(clientTransport);
+
+        expect((await client.listTools()).tools.map(tool => tool.name)).toEqual(['get_rules', 'list_rules']);
+        await expect(client.callTool({ name: 'install_rules', arguments: {} })).rejects.toThrow('Tool install_rules is disabled in the server configuration');
+        await client.close();
+    });
+});
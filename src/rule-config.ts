@@ -0,0 +1,249 @@
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { parse } from 'yaml';
+import { TemplateVariables, isTemplateValue, loadEnvVariables } from './rule-template.js';
+
+export const CONFIG_FILES = ['agent-rules.config.json', 'agent-rules.config.yaml', 'agent-rules.config.yml'];
+export const CONFIG_ENV_VAR = 'AGENT_RULES_CONFIG';
+export const SOURCE_TYPES = ['github', 'gitlab', 'bitbucket', 'git', 'local', 'pack'] as const;
+
+export type SourceType = typeof SOURCE_TYPES[number];
+
+export interface SourceConfig {
+  type: SourceType;
+  repository?: string;
+  url?: string;
+  apiUrl?: string;
+  path?: string;
+  ref?: string;
+  tokenEnv?: string;
+  extensions?: string[];
+  skip?: string[];
+  cacheTtl?: number;
+  directoryCacheTtl?: number;
+}
+
+export interface CacheConfig {
+  directory?: string;
+  disk?: boolean;
+  ttl?: number;
+  directoryTtl?: number;
+}
+
+export interface WatchConfig {
+  enabled?: boolean;
+  pollInterval?: number;
+  debounce?: number;
+}
+
+export interface ToolsConfig {
+  enabled?: string[];
+  disabled?: string[];
+}
+
+export interface RulesConfig {
+  $schema?: string;
+  sources?: Array<string | SourceConfig>;
+  extensions?: string[];
+  skip?: string[];
+  cache?: CacheConfig;
+  watch?: WatchConfig;
+  tools?: ToolsConfig;
+  variables?: TemplateVariables;
+}
+
+export interface LoadedRulesConfig {
+  file?: string;
+  config: RulesConfig;
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  enum?: readonly string[];
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+};
+
+const SECONDS_SCHEMA: JsonSchema = { type: 'number', minimum: 0, description: 'Seconds' };
+const EXTENSIONS_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string', pattern: '^\\.[^/]+$' }, description: 'Rule file extensions, e.g. [".md", ".mdc"]' };
+const SKIP_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 }, description: 'File names that are never treated as rules' };
+const TOOL_LIST_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const SOURCE_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['type'],
+  properties: {
+    type: { type: 'string', enum: SOURCE_TYPES },
+    repository: { type: 'string', minLength: 1, description: 'owner/repo (GitHub), group/project (GitLab) or workspace/repo (Bitbucket)' },
+    url: { type: 'string', minLength: 1, description: 'Repository URL (git) or base URL of a self-hosted instance (GitLab, Bitbucket)' },
+    apiUrl: { type: 'string', minLength: 1, description: 'API base URL (GitHub Enterprise, Bitbucket)' },
+    path: { type: 'string', description: 'Rules folder inside the repository, or the directory (local) or file (pack)' },
+    ref: { type: 'string', minLength: 1, description: 'Branch, tag, commit SHA or semver range' },
+    tokenEnv: { type: 'string', pattern: '^[A-Za-z_][A-Za-z0-9_]*$', description: 'Name of the environment variable holding the access token' },
+    extensions: EXTENSIONS_SCHEMA,
+    skip: SKIP_SCHEMA,
+    cacheTtl: SECONDS_SCHEMA,
+    directoryCacheTtl: SECONDS_SCHEMA
+  }
+};
+
+export const RULES_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'agent-rules-mcp configuration',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    sources: { type: 'array', items: { anyOf: [{ type: 'string', minLength: 1, description: 'Source spec such as github:owner/repo/rules@main' }, SOURCE_SCHEMA] }, description: 'Rule sources, highest priority first' },
+    extensions: EXTENSIONS_SCHEMA,
+    skip: SKIP_SCHEMA,
+    cache: {
+      type: 'object',
+      additionalProperties: false,
+      properties: { directory: { type: 'string', minLength: 1 }, disk: { type: 'boolean' }, ttl: SECONDS_SCHEMA, directoryTtl: SECONDS_SCHEMA }
+    },
+    watch: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean', description: 'Watch local sources and poll remote sources for changes' },
+        pollInterval: { ...SECONDS_SCHEMA, description: 'Seconds between checks for a new commit on remote sources (0 disables polling)' },
+        debounce: { ...SECONDS_SCHEMA, description: 'Seconds to wait for changes to settle before reloading rules' }
+      }
+    },
+    tools: { type: 'object', additionalProperties: false, properties: { enabled: TOOL_LIST_SCHEMA, disabled: TOOL_LIST_SCHEMA } },
+    variables: { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean'] }, description: 'Template variables for {{name}} placeholders' }
+  }
+};
+
+const SOURCE_FIELDS: Record<SourceType, { required: Array<keyof SourceConfig>; allowed: Array<keyof SourceConfig> }> = {
+  github: { required: ['repository'], allowed: ['apiUrl', 'path', 'ref', 'tokenEnv'] },
+  gitlab: { required: ['repository'], allowed: ['url', 'path', 'ref', 'tokenEnv'] },
+  bitbucket: { required: ['repository'], allowed: ['url', 'apiUrl', 'path', 'ref', 'tokenEnv'] },
+  git: { required: ['url'], allowed: ['path', 'ref'] },
+  local: { required: ['path'], allowed: [] },
+  pack: { required: ['path'], allowed: [] }
+};
+const COMMON_SOURCE_FIELDS: Array<keyof SourceConfig> = ['type', 'extensions', 'skip', 'cacheTtl', 'directoryCacheTtl'];
+
+const typeOf = (value: unknown): string =>
+  Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+const validateSchema = (value: unknown, schema: JsonSchema, location: string): string[] => {
+  const at = location || '(root)';
+
+  if (schema.anyOf) {
+    const branch = schema.anyOf.find(option => [option.type].flat().includes(typeOf(value)));
+    return branch ? validateSchema(value, branch, location) : [`${at}: must be ${schema.anyOf.map(option => option.type).join(' or ')}`];
+  }
+
+  const types = [schema.type].flat().filter(Boolean) as string[];
+  if (types.length > 0 && !types.includes(typeOf(value))) {
+    return [`${at}: must be ${types.join(' or ')}, got ${typeOf(value)}`];
+  }
+
+  if (typeof value === 'string') {
+    if (schema.enum && !schema.enum.includes(value)) return [`${at}: must be one of ${schema.enum.join(', ')}`];
+    if (schema.minLength !== undefined && value.length < schema.minLength) return [`${at}: must not be empty`];
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) return [`${at}: "${value}" does not match ${schema.pattern}`];
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) return [`${at}: must be at least ${schema.minimum}`];
+  if (Array.isArray(value) && schema.items) return value.flatMap((item, index) => validateSchema(item, schema.items!, `${location}[${index}]`));
+
+  if (typeOf(value) !== 'object') return [];
+  const record = value as Record<string, unknown>;
+  const key = (name: string) => location ? `${location}.${name}` : name;
+
+  return [
+    ...(schema.required ?? []).filter(name => record[name] === undefined).map(name => `${key(name)}: is required`),
+    ...Object.entries(record).flatMap(([name, child]) => {
+      const childSchema = schema.properties?.[name] ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+      if (childSchema) return validateSchema(child, childSchema, key(name));
+      return schema.additionalProperties === false ? [`${key(name)}: unknown property`] : [];
+    })
+  ];
+};
+
+const repositorySegments = (source: SourceConfig): number => source.repository!.split('/').filter(Boolean).length;
+
+const validateSourceFields = (source: SourceConfig, location: string): string[] => {
+  const fields = SOURCE_FIELDS[source.type];
+  if (!fields) return [];
+
+  const allowed = [...COMMON_SOURCE_FIELDS, ...fields.required, ...fields.allowed];
+  return [
+    ...fields.required.filter(name => source[name] === undefined).map(name => `${location}.${name}: is required for ${source.type} sources`),
+    ...Object.keys(source).filter(name => name in SOURCE_SCHEMA.properties! && !allowed.includes(name as keyof SourceConfig)).map(name => `${location}.${name}: is not supported by ${source.type} sources`),
+    ...(source.type === 'pack' && (source.extensions || source.skip) ? [`${location}: extensions and skip do not apply to pack sources`] : []),
+    ...(typeof source.repository === 'string' && (source.type === 'gitlab' ? repositorySegments(source) < 2 : repositorySegments(source) !== 2)
+      ? [`${location}.repository: expected ${source.type === 'gitlab' ? '<group>/<project>' : '<owner>/<repo>'}`]
+      : [])
+  ];
+};
+
+export const validateRulesConfig = (value: unknown): string[] => {
+  const { variables, ...rest } = (typeOf(value) === 'object' ? value : {}) as RulesConfig;
+  const invalidVariables = typeOf(variables) === 'object' ? Object.entries(variables!).filter(([, variable]) => !isTemplateValue(variable)).map(([name]) => name) : [];
+  const errors = [
+    ...validateSchema(typeOf(value) === 'object' ? rest : value, RULES_CONFIG_SCHEMA, ''),
+    ...(variables !== undefined && typeOf(variables) !== 'object' ? ['variables: must be a mapping of names to values'] : []),
+    ...(invalidVariables.length > 0 ? [`variables: template variables must be strings, numbers or booleans: ${invalidVariables.join(', ')}`] : [])
+  ];
+  const config = value as RulesConfig;
+  return [
+    ...errors,
+    ...(Array.isArray(config?.sources) ? config.sources : []).flatMap((source, index) => typeOf(source) === 'object' ? validateSourceFields(source as SourceConfig, `sources[${index}]`) : []),
+    ...(config?.tools?.enabled && config.tools.disabled ? ['tools: set either enabled or disabled, not both'] : [])
+  ];
+};
+
+export const findConfigFile = (directory = process.cwd()): string | undefined =>
+  CONFIG_FILES.map(name => path.join(directory, name)).find(existsSync);
+
+export const readRulesConfig = (file: string): RulesConfig => {
+  let config: unknown;
+  try {
+    const raw = readFileSync(file, 'utf-8');
+    config = (file.endsWith('.json') ? JSON.parse(raw) : parse(raw)) ?? {};
+  } catch (error) {
+    throw new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateRulesConfig(config);
+  if (errors.length > 0) throw new Error(`Invalid configuration in ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  return resolveRelativePaths(config as RulesConfig, path.dirname(file));
+};
+
+const resolveRelativePaths = (config: RulesConfig, directory: string): RulesConfig => ({
+  ...config,
+  ...(config.sources && {
+    sources: config.sources.map((source) => {
+      if (typeof source === 'string') return source.replace(/^\s*(local|pack)\s*:\s*(.+)$/i, (_, type: string, target: string) => `${type}:${path.resolve(directory, target.trim())}`);
+      return (source.type === 'local' || source.type === 'pack') && source.path ? { ...source, path: path.resolve(directory, source.path) } : source;
+    })
+  }),
+  ...(config.cache?.directory && { cache: { ...config.cache, directory: path.resolve(directory, config.cache.directory) } })
+});
+
+export const loadRulesConfig = (file?: string, directory = process.cwd()): LoadedRulesConfig => {
+  const configFile = file || process.env[CONFIG_ENV_VAR];
+  if (configFile && !existsSync(path.resolve(directory, configFile))) throw new Error(`Configuration file not found: ${configFile}`);
+
+  const resolved = configFile ? path.resolve(directory, configFile) : findConfigFile(directory);
+  return resolved ? { file: resolved, config: readRulesConfig(resolved) } : { config: {} };
+};
+
+export const loadProjectVariables = (directory = process.cwd()): TemplateVariables => {
+  const file = findConfigFile(directory);
+  return file ? readRulesConfig(file).variables ?? {} : {};
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { createRuleDiff } from './rule-diff.js';
+
+describe('createRuleDiff', () => {
+    const from = { ref: 'v1.0.0', commit: 'a'.repeat(40) };
+    const to = { ref: 'main', commit: 'b'.repeat(40) };
+    const commits = [{ sha: 'b'.repeat(40), message: 'Update react rules' }];
+
+    it('should produce a unified diff with line counts', () => {
+        const diff = createRuleDiff('react', 'github:owner/repo', { path: 'rules/react.md', from: { ...from, content: '# React\n\n- one\n- two\n' }, to: { ...to, content: '# React\n\n- one\n- three\n- four\n' }, commits });
+
+        expect(diff).toMatchObject({ domain: 'react', path: 'rules/react.md', status: 'modified', additions: 2, deletions: 1, commits, from, to });
+        expect(diff.diff).toContain('--- a/rules/react.md\tv1.0.0 (aaaaaaaaaaaa)');
+        expect(diff.diff).toContain('+++ b/rules/react.md\tmain (bbbbbbbbbbbb)');
+        expect(diff.diff).toContain('-- two\n+- three\n+- four');
+    });
+
+    it('should diff added rules against /dev/null', () => {
+        const diff = createRuleDiff('react', 'github:owner/repo', { path: 'rules/react.md', from: { ...from, content: null }, to: { ...to, content: '# React\n' }, commits: [] });
+
+        expect(diff).toMatchObject({ status: 'added', additions: 1, deletions: 0 });
+        expect(diff.diff).toContain('--- /dev/null');
+    });
+
+    it('should report unchanged rules without a diff', () => {
+        const diff = createRuleDiff('react', 'github:owner/repo', { from: { ...from, content: '# React\n' }, to: { ...to, content: '# React\n' }, commits: [] });
+
+        expect(diff).toMatchObject({ status: 'unchanged', additions: 0, deletions: 0, diff: '' });
+    });
+
+    it('should reject rules missing at both revisions', () => {
+        expect(() => createRuleDiff('react', 'github:owner/repo', { from: { ...from, content: null }, to: { ...to, content: null }, commits: [] })).toThrow('Rule react does not exist at v1.0.0');
+    });
+});
@@ -0,0 +1,44 @@
+import { createTwoFilesPatch, structuredPatch } from 'diff';
+import { RuleCommit, RuleHistory, RuleRevision } from './rule-source.js';
+
+export type RuleDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface RuleDiff {
+  domain: string;
+  source: string;
+  path?: string;
+  from: Omit<RuleRevision, 'content'>;
+  to: Omit<RuleRevision, 'content'>;
+  status: RuleDiffStatus;
+  additions: number;
+  deletions: number;
+  diff: string;
+  commits: RuleCommit[];
+}
+
+export const describeRevision = ({ ref, commit }: Omit<RuleRevision, 'content'>): string => ref === commit ? commit.slice(0, 12) : `${ref} (${commit.slice(0, 12)})`;
+
+export const createRuleDiff = (domain: string, source: string, history: RuleHistory): RuleDiff => {
+  const { path, from, to, commits } = history;
+  if (from.content === null && to.content === null) throw new Error(`Rule ${domain} does not exist at ${describeRevision(from)} or ${describeRevision(to)}`);
+
+  const oldContent = from.content ?? '';
+  const newContent = to.content ?? '';
+  const fileName = path ?? `${domain}.md`;
+  const status: RuleDiffStatus = from.content === null ? 'added' : to.content === null ? 'removed' : oldContent === newContent ? 'unchanged' : 'modified';
+
+  const lines = structuredPatch(fileName, fileName, oldContent, newContent).hunks.flatMap(hunk => hunk.lines);
+  const diff = status === 'unchanged' ? '' : createTwoFilesPatch(from.content === null ? '/dev/null' : `a/${fileName}`, to.content === null ? '/dev/null' : `b/${fileName}`,
+    oldContent, newContent, describeRevision(from), describeRevision(to), { context: 3 });
+
+  const { content: _fromContent, ...fromRevision } = from;
+  const { content: _toContent, ...toRevision } = to;
+
+  return {
+    domain, source, ...(path && { path }),
+    from: fromRevision, to: toRevision, status,
+    additions: lines.filter(line => line.startsWith('+')).length,
+    deletions: lines.filter(line => line.startsWith('-')).length,
+    diff, commits
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { exportRules } from './rule-export.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+import { RuleContent } from './rule-source.js';
+
+describe('exportRules', () => {
+    const reader = new LocalDirectoryFileReader('.');
+    const react: RuleContent = { domain: 'react', description: 'React conventions', content: '# React\n\n## Hooks\n\n- Use hooks', metadata: { globs: ['**/*.tsx', '**/*.jsx'] } };
+    const security: RuleContent = { domain: 'security', description: 'Security rules', content: 'Never log secrets.', metadata: { alwaysApply: true } };
+    const api: RuleContent = { domain: 'backend/api', description: 'API rules', content: '# API\n\n```md\n# not a heading\n```', metadata: { applyTo: ['src/api/**'] } };
+
+    it('should write Cursor rules whose frontmatter reads back the same scope', () => {
+        const { files } = exportRules([react, security, api], 'cursor');
+
+        expect(files.map(file => file.path)).toEqual(['.cursor/rules/react.mdc', '.cursor/rules/security.mdc', '.cursor/rules/backend/api.mdc']);
+        expect(files[0].content).toBe('---\ndescription: React conventions\nglobs: **/*.tsx, **/*.jsx\nalwaysApply: false\n---\n\n# React\n\n## Hooks\n\n- Use hooks\n');
+        expect(reader.parseRuleContent(files[0].content, 'react').metadata).toMatchObject({ globs: ['**/*.tsx', '**/*.jsx'], alwaysApply: false });
+        expect(reader.parseRuleContent(files[1].content, 'security').metadata).toMatchObject({ alwaysApply: true });
+        expect(reader.parseRuleContent(files[2].content, 'backend/api').metadata).toMatchObject({ globs: ['src/api/**'] });
+    });
+
+    it('should map globs and alwaysApply onto Copilot applyTo', () => {
+        const { files } = exportRules([react, security], 'copilot');
+
+        expect(files.map(file => file.path)).toEqual(['.github/instructions/react.instructions.md', '.github/instructions/security.instructions.md']);
+        expect(reader.parseRuleContent(files[0].content, 'react')).toMatchObject({ description: 'React conventions', metadata: { applyTo: ['**/*.tsx', '**/*.jsx'] } });
+        expect(files[1].content).toContain('applyTo: "**"');
+    });
+
+    it('should combine rules into one file with demoted headings for AGENTS.md and CLAUDE.md', () => {
+        const { files } = exportRules([react, security, api], 'agents');
+
+        expect(files).toHaveLength(1);
+        expect(files[0].path).toBe('AGENTS.md');
+        expect(files[0].content).toContain('<!-- rule: react -->\n## React\n\n> Applies to: `**/*.tsx`, `**/*.jsx`\n\n### Hooks');
+        expect(files[0].content).toContain('<!-- rule: security -->\n## security\n\nNever log secrets.');
+        expect(files[0].content).toContain('```md\n# not a heading\n```');
+        expect(exportRules([react], 'claude').files[0].path).toBe('CLAUDE.md');
+    });
+
+    it('should warn when .windsurfrules exceeds the Windsurf size limit', () => {
+        const large: RuleContent = { domain: 'large', content: 'x'.repeat(7000) };
+
+        expect(exportRules([security], 'windsurf')).toMatchObject({ files: [{ path: '.windsurfrules' }], warnings: [] });
+        expect(exportRules([large], 'windsurf').warnings[0]).toContain('Windsurf only reads the first 6000');
+    });
+});
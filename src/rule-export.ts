@@ -0,0 +1,99 @@
+import { parseHeadings } from './markdown-outline.js';
+import { RuleContent } from './rule-source.js';
+
+export const EXPORT_TARGETS = ['cursor', 'copilot', 'agents', 'claude', 'windsurf'] as const;
+export type ExportTarget = typeof EXPORT_TARGETS[number];
+
+export interface ExportedFile {
+  path: string;
+  content: string;
+  domains: string[];
+}
+
+export interface RuleExport {
+  target: ExportTarget;
+  files: ExportedFile[];
+  warnings: string[];
+}
+
+export const WINDSURF_RULES_LIMIT = 6000;
+
+const ALWAYS_PATTERNS = ['**', '**/*'];
+
+const SINGLE_FILE_TARGETS: Partial<Record<ExportTarget, { path: string; title: string }>> = {
+  agents: { path: 'AGENTS.md', title: 'AGENTS.md' },
+  claude: { path: 'CLAUDE.md', title: 'CLAUDE.md' },
+  windsurf: { path: '.windsurfrules', title: 'Windsurf Rules' }
+};
+
+export const isExportTarget = (value: unknown): value is ExportTarget => EXPORT_TARGETS.includes(value as ExportTarget);
+
+const getScope = (rule: RuleContent): { patterns: string[]; alwaysApply: boolean } => {
+  const patterns = rule.metadata?.globs ?? rule.metadata?.applyTo ?? [];
+  const alwaysApply = rule.metadata?.alwaysApply ?? patterns.some(pattern => ALWAYS_PATTERNS.includes(pattern));
+  return { patterns: patterns.filter(pattern => !ALWAYS_PATTERNS.includes(pattern)), alwaysApply };
+};
+
+const quote = (value: string): string => JSON.stringify(value);
+
+const withFrontmatter = (fields: Array<[string, string | undefined]>, content: string): string => {
+  const lines = fields.filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${value}`);
+  return `${lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n` : ''}${content.trim()}\n`;
+};
+
+// Cursor writes its own frontmatter unquoted (`globs: src/**/*.ts, lib/**`), so match it.
+const toCursorRule = (rule: RuleContent): ExportedFile => {
+  const { patterns, alwaysApply } = getScope(rule);
+  return {
+    path: `.cursor/rules/${rule.domain}.mdc`,
+    domains: [rule.domain],
+    content: withFrontmatter([
+      ['description', rule.description?.replace(/\s*\n\s*/g, ' ')],
+      ['globs', patterns.length > 0 ? patterns.join(', ') : undefined],
+      ['alwaysApply', String(alwaysApply)]
+    ], rule.content)
+  };
+};
+
+const toCopilotInstructions = (rule: RuleContent): ExportedFile => {
+  const { patterns, alwaysApply } = getScope(rule);
+  return {
+    path: `.github/instructions/${rule.domain}.instructions.md`,
+    domains: [rule.domain],
+    content: withFrontmatter([
+      ['description', rule.description ? quote(rule.description) : undefined],
+      ['applyTo', alwaysApply ? quote('**') : patterns.length > 0 ? quote(patterns.join(',')) : undefined]
+    ], rule.content)
+  };
+};
+
+const demoteHeadings = (content: string): string => {
+  const lines = content.split(/\r?\n/);
+  for (const heading of parseHeadings(content)) lines[heading.line] = lines[heading.line].replace(/^(#{1,6})/, hashes => hashes.length < 6 ? `${hashes}#` : hashes);
+  return lines.join('\n');
+};
+
+const toSection = (rule: RuleContent): string => {
+  const { patterns, alwaysApply } = getScope(rule);
+  const content = rule.content.trim();
+  const title = parseHeadings(content)[0];
+  const [heading, body] = title?.level === 1 && title.line === 0
+    ? [`#${content.split(/\r?\n/)[0]}`, demoteHeadings(content).split('\n').slice(1).join('\n').trim()]
+    : [`## ${rule.domain}`, demoteHeadings(content)];
+  const scope = !alwaysApply && patterns.length > 0 ? `> Applies to: ${patterns.map(pattern => `\`${pattern}\``).join(', ')}\n\n` : '';
+  return `<!-- rule: ${rule.domain} -->\n${heading}\n\n${scope}${body}`;
+};
+
+export const exportRules = (rules: RuleContent[], target: ExportTarget): RuleExport => {
+  const warnings: string[] = [];
+  const singleFile = SINGLE_FILE_TARGETS[target];
+
+  if (!singleFile) return { target, files: rules.map(target === 'cursor' ? toCursorRule : toCopilotInstructions), warnings };
+
+  const content = `# ${singleFile.title}\n\n<!-- Generated by agent-rules-mcp. Regenerate with: agent-rules-mcp export ${target} -->\n\n${rules.map(toSection).join('\n\n')}\n`;
+  if (target === 'windsurf' && content.length > WINDSURF_RULES_LIMIT) {
+    warnings.push(`.windsurfrules is ${content.length} characters; Windsurf only reads the first ${WINDSURF_RULES_LIMIT}, so export fewer domains`);
+  }
+
+  return { target, files: [{ path: singleFile.path, content, domains: rules.map(rule => rule.domain) }], warnings };
+};
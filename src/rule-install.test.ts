@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleManager } from './rule-manager.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+import { LOCKFILE_NAME, installRules, readLockfile, syncRules } from './rule-install.js';
+
+describe('installRules', () => {
+    let rulesDirectory: string;
+    let root: string;
+    const createManager = () => new RuleManager([new LocalDirectoryFileReader(rulesDirectory)], { variables: {} });
+
+    beforeEach(async () => {
+        rulesDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-install-src-'));
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-install-root-'));
+        await fs.writeFile(path.join(rulesDirectory, 'react.md'), '---\ndescription: React rules\nglobs: "**/*.tsx"\n---\n# React\n\n- Use hooks\n');
+        await fs.writeFile(path.join(rulesDirectory, 'security.md'), '# Security\n\n- Never log secrets\n');
+    });
+
+    afterEach(async () => {
+        await fs.rm(rulesDirectory, { recursive: true, force: true });
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    it('should write rules and record them in the lockfile', async () => {
+        const dryRun = await installRules(createManager(), 'cursor', ['react'], { root, dryRun: true });
+        expect(dryRun.files).toEqual([{ path: '.cursor/rules/react.mdc', status: 'added', domains: ['react'] }]);
+        await expect(fs.access(path.join(root, LOCKFILE_NAME))).rejects.toThrow();
+
+        const result = await installRules(createManager(), 'cursor', ['react'], { root });
+        const lock = await readLockfile(root);
+
+        expect(result.files[0].status).toBe('added');
+        expect(await fs.readFile(path.join(root, '.cursor/rules/react.mdc'), 'utf-8')).toContain('globs: **/*.tsx');
+        expect(lock.files).toEqual([{ path: '.cursor/rules/react.mdc', target: 'cursor', rules: [{ domain: 'react', source: `local:${rulesDirectory}` }], hash: expect.stringMatching(/^sha256-[0-9a-f]{64}$/) }]);
+        expect((await installRules(createManager(), 'cursor', ['react'], { root })).files[0].status).toBe('unchanged');
+    });
+
+    it('should update untouched files on sync and report local edits as conflicts', async () => {
+        await installRules(createManager(), 'copilot', ['react', 'security'], { root });
+        await fs.appendFile(path.join(rulesDirectory, 'react.md'), '- Prefer function components\n');
+        await fs.appendFile(path.join(rulesDirectory, 'security.md'), '- Rotate tokens\n');
+        const edited = path.join(root, '.github/instructions/security.instructions.md');
+        await fs.appendFile(edited, '\nLocal note\n');
+
+        const result = await syncRules(createManager(), { root });
+
+        expect(result.files).toEqual([
+            { path: '.github/instructions/react.instructions.md', status: 'updated', domains: ['react'] },
+            { path: '.github/instructions/security.instructions.md', status: 'conflict', domains: ['security'], reason: 'modified locally since it was installed' }
+        ]);
+        expect(await fs.readFile(path.join(root, '.github/instructions/react.instructions.md'), 'utf-8')).toContain('Prefer function components');
+        expect(await fs.readFile(edited, 'utf-8')).toContain('Local note');
+
+        const forced = await syncRules(createManager(), { root, force: true });
+        expect(forced.files[1]).toMatchObject({ status: 'updated', reason: 'local edits overwritten' });
+        expect(await fs.readFile(edited, 'utf-8')).toContain('Rotate tokens');
+    });
+
+    it('should keep earlier rules when adding to a single-file target', async () => {
+        await installRules(createManager(), 'agents', ['react'], { root });
+        await installRules(createManager(), 'agents', ['security'], { root });
+
+        const content = await fs.readFile(path.join(root, 'AGENTS.md'), 'utf-8');
+        expect(content).toContain('<!-- rule: react -->');
+        expect(content).toContain('<!-- rule: security -->');
+        expect((await readLockfile(root)).files[0].rules.map(rule => rule.domain)).toEqual(['react', 'security']);
+    });
+
+    it('should refuse to overwrite untracked files or write outside the workspace root', async () => {
+        await fs.writeFile(path.join(root, 'CLAUDE.md'), '# Hand-written\n');
+        expect((await installRules(createManager(), 'claude', ['react'], { root })).files[0]).toMatchObject({ status: 'conflict', reason: 'file exists and was not installed by agent-rules-mcp' });
+
+        await expect(installRules(createManager(), 'agents', ['react'], { root, directory: '../elsewhere' })).rejects.toThrow('outside the workspace root');
+
+        const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-install-outside-'));
+        await fs.symlink(outside, path.join(root, 'linked'));
+        await expect(installRules(createManager(), 'agents', ['react'], { root, directory: 'linked' })).rejects.toThrow('outside the workspace root');
+        expect(await fs.readdir(outside)).toEqual([]);
+        await fs.rm(outside, { recursive: true, force: true });
+    });
+});
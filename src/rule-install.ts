@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ExportTarget, exportRules, isExportTarget } from './rule-export.js';
+import { RuleContent } from './rule-source.js';
+import { RuleManager } from './rule-manager.js';
+
+export const LOCKFILE_NAME = 'agent-rules.lock.json';
+export const LOCKFILE_VERSION = 1;
+
+export interface LockedRule {
+  domain: string;
+  source?: string;
+  ref?: string;
+}
+
+export interface LockedFile {
+  path: string;
+  target: ExportTarget;
+  rules: LockedRule[];
+  hash: string;
+}
+
+export interface RuleLockfile {
+  version: number;
+  files: LockedFile[];
+}
+
+export type InstallStatus = 'added' | 'updated' | 'unchanged' | 'conflict' | 'missing';
+
+export interface InstalledFile {
+  path: string;
+  status: InstallStatus;
+  domains: string[];
+  reason?: string;
+}
+
+export interface InstallResult {
+  root: string;
+  lockfile: string;
+  dryRun: boolean;
+  files: InstalledFile[];
+  warnings: string[];
+}
+
+export interface InstallOptions {
+  root?: string;
+  directory?: string;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+interface PlannedFile {
+  path: string;
+  target: ExportTarget;
+  content: string;
+  rules: RuleContent[];
+}
+
+const hashFileContent = (content: string): string => `sha256-${createHash('sha256').update(content).digest('hex')}`;
+
+const isInside = (candidate: string, base: string): boolean => {
+  const relative = path.relative(base, candidate);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+};
+
+const readFileIfExists = (file: string): Promise<string | null> =>
+  fs.readFile(file, 'utf-8').catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  });
+
+// Symlinks are resolved on the nearest existing ancestor so a linked directory
+// (or a dangling link at the target itself) cannot redirect a write elsewhere.
+export const resolveWorkspacePath = async (root: string, relativePath: string): Promise<string> => {
+  const resolved = path.resolve(root, relativePath);
+  const refuse = () => new Error(`Refusing to write ${relativePath}: it resolves outside the workspace root ${root}`);
+  if (!isInside(resolved, root)) throw refuse();
+
+  const realRoot = await fs.realpath(root);
+  for (let current = resolved; ; current = path.dirname(current)) {
+    const real = await fs.realpath(current).catch(() => null);
+    if (real) {
+      if (!isInside(real, realRoot)) throw refuse();
+      return resolved;
+    }
+    if (await fs.lstat(current).then(() => true, () => false)) throw refuse();
+  }
+};
+
+export const readLockfile = async (root: string): Promise<RuleLockfile> => {
+  const file = path.join(root, LOCKFILE_NAME);
+  const raw = await readFileIfExists(file);
+  if (raw === null) return { version: LOCKFILE_VERSION, files: [] };
+
+  const lock = JSON.parse(raw) as RuleLockfile;
+  if (lock?.version !== LOCKFILE_VERSION || !Array.isArray(lock.files)) throw new Error(`Unsupported lockfile ${file}: expected version ${LOCKFILE_VERSION}`);
+  const invalid = lock.files.filter(entry => typeof entry?.path !== 'string' || !isExportTarget(entry.target) || !Array.isArray(entry.rules) || typeof entry.hash !== 'string');
+  if (invalid.length > 0) throw new Error(`Invalid lockfile ${file}: malformed entries for ${invalid.map(entry => entry?.path ?? '(unknown)').join(', ')}`);
+  return lock;
+};
+
+const fetchRules = async (ruleManager: RuleManager, domains: string[]): Promise<{ rules: RuleContent[]; missing: string[] }> => {
+  const contents = await ruleManager.getMultipleRuleContents(domains);
+  return {
+    rules: domains.map(domain => contents.get(domain)).filter((rule): rule is RuleContent => !!rule),
+    missing: domains.filter(domain => !contents.get(domain))
+  };
+};
+
+const applyPlan = async (root: string, lock: RuleLockfile, planned: PlannedFile[], skipped: InstalledFile[], warnings: string[], options: InstallOptions): Promise<InstallResult> => {
+  const entries = new Map(lock.files.map(entry => [entry.path, entry]));
+  const results: InstalledFile[] = [];
+
+  for (const file of planned) {
+    const absolute = await resolveWorkspacePath(root, file.path);
+    const relative = path.relative(root, absolute).split(path.sep).join('/');
+    const locked = entries.get(relative);
+    const current = await readFileIfExists(absolute);
+    const hash = hashFileContent(file.content);
+    const currentHash = current === null ? undefined : hashFileContent(current);
+    const domains = file.rules.map(rule => rule.domain);
+
+    let status: InstallStatus;
+    let reason: string | undefined;
+    if (current === null) status = 'added';
+    else if (currentHash === hash) status = 'unchanged';
+    else if (locked && currentHash === locked.hash) status = 'updated';
+    else if (options.force) [status, reason] = ['updated', locked ? 'local edits overwritten' : 'untracked file overwritten'];
+    else [status, reason] = ['conflict', locked ? 'modified locally since it was installed' : 'file exists and was not installed by agent-rules-mcp'];
+
+    results.push({ path: relative, status, domains, ...(reason && { reason }) });
+    if (status === 'conflict') continue;
+
+    entries.set(relative, { path: relative, target: file.target, rules: file.rules.map(rule => ({ domain: rule.domain, ...(rule.source && { source: rule.source }), ...(rule.commit && { ref: rule.commit }) })), hash });
+    if (!options.dryRun && status !== 'unchanged') {
+      await fs.mkdir(path.dirname(absolute), { recursive: true });
+      await fs.writeFile(absolute, file.content, 'utf-8');
+    }
+  }
+
+  const lockfile = path.join(root, LOCKFILE_NAME);
+  if (!options.dryRun) {
+    const files = Array.from(entries.values()).sort((a, b) => a.path.localeCompare(b.path));
+    await fs.writeFile(lockfile, `${JSON.stringify({ version: LOCKFILE_VERSION, files }, null, 2)}\n`, 'utf-8');
+  }
+
+  return { root, lockfile, dryRun: options.dryRun === true, files: [...results, ...skipped], warnings };
+};
+
+export const installRules = async (ruleManager: RuleManager, target: ExportTarget, domains: string[], options: InstallOptions = {}): Promise<InstallResult> => {
+  const root = path.resolve(options.root ?? process.cwd());
+  const lock = await readLockfile(root);
+  const { rules, missing } = await fetchRules(ruleManager, domains);
+  if (missing.length > 0) throw new Error(`Rules not found: ${missing.join(', ')}`);
+
+  const { files, warnings } = exportRules(rules, target);
+  const planned = await Promise.all(files.map(async (file) => {
+    const filePath = path.join(options.directory ?? '.', file.path);
+    const relative = path.relative(root, path.resolve(root, filePath)).split(path.sep).join('/');
+    const locked = lock.files.find(entry => entry.path === relative && entry.target === target);
+    const previous = locked?.rules.map(rule => rule.domain).filter(domain => !file.domains.includes(domain)) ?? [];
+    if (previous.length === 0) return { path: filePath, target, content: file.content, rules: rules.filter(rule => file.domains.includes(rule.domain)) };
+
+    // Single-file targets keep the rules installed earlier alongside the new ones.
+    const earlier = await fetchRules(ruleManager, previous);
+    if (earlier.missing.length > 0) warnings.push(`Dropping ${earlier.missing.join(', ')} from ${relative}: no longer available from the rule sources`);
+    const combined = [...earlier.rules, ...rules.filter(rule => file.domains.includes(rule.domain))];
+    return { path: filePath, target, content: exportRules(combined, target).files[0].content, rules: combined };
+  }));
+
+  return applyPlan(root, lock, planned, [], warnings, options);
+};
+
+export const syncRules = async (ruleManager: RuleManager, options: InstallOptions = {}): Promise<InstallResult> => {
+  const root = path.resolve(options.root ?? process.cwd());
+  const lock = await readLockfile(root);
+  const planned: PlannedFile[] = [];
+  const skipped: InstalledFile[] = [];
+  const warnings: string[] = [];
+  if (lock.files.length === 0) warnings.push(`Nothing to sync: ${LOCKFILE_NAME} lists no installed rules`);
+
+  for (const entry of lock.files) {
+    const domains = entry.rules.map(rule => rule.domain);
+    const { rules, missing } = await fetchRules(ruleManager, domains);
+    if (missing.length > 0) {
+      skipped.push({ path: entry.path, status: 'missing', domains, reason: `no longer available from the rule sources: ${missing.join(', ')}` });
+      continue;
+    }
+
+    const exported = exportRules(rules, entry.target);
+    warnings.push(...exported.warnings);
+    planned.push({ path: entry.path, target: entry.target, content: exported.files[0].content, rules });
+  }
+
+  return applyPlan(root, lock, planned, skipped, warnings, options);
+};
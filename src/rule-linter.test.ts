@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+import { lintRuleSources, toSarif } from './rule-linter.js';
+
+describe('lintRuleSources', () => {
+    let directory: string;
+    let upstream: string;
+
+    const write = (dir: string, files: Record<string, string>) => Promise.all(Object.entries(files).map(([name, content]) => fs.writeFile(path.join(dir, name), content)));
+    const relative = (dir: string, name: string) => path.relative(process.cwd(), path.join(dir, name)).split(path.sep).join('/');
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-lint-'));
+        upstream = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-lint-upstream-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+        await fs.rm(upstream, { recursive: true, force: true });
+    });
+
+    it('should pass a clean rule set', async () => {
+        await write(directory, {
+            'react.md': '---\ndescription: React rules\ntags: [react]\n---\n# React\n\n## Hooks\nSee [state](#state) and [security](security.md#xss).\n\n## State\nLift it.',
+            'security.md': '# Security\n\n## XSS\nEscape output.'
+        });
+
+        const report = await lintRuleSources([new LocalDirectoryFileReader(directory)]);
+
+        expect(report).toMatchObject({ valid: true, rulesChecked: 2, errors: 0, warnings: 0, diagnostics: [] });
+    });
+
+    it('should report diagnostics with files and line numbers', async () => {
+        await write(directory, {
+            'react.md': '---\npriority: high\nalwaysApply: maybe\nextends: base\n---\n# React\n\n<!-- include: security#CSRF -->\n[guide](guide.md) and [top](#nope)',
+            'react.mdc': '# React duplicate',
+            'security.md': '# Security\n\n## XSS\nEscape output.',
+            'empty.md': '---\ndescription: Nothing here\n---\n\n',
+            'bad name.md': '# Bad',
+            'cursor.mdc': '---\nglobs: **/*.ts\n---\n# Cursor',
+            'ranges.md': '---\nglobs: ["src/[z-a].ts"]\n---\n# Ranges',
+            'loop-a.md': '---\nextends: loop-b\n---\n# A',
+            'loop-b.md': '---\nextends: loop-a\n---\n# B'
+        });
+        await write(upstream, { 'security.md': '# Upstream security' });
+
+        const report = await lintRuleSources([new LocalDirectoryFileReader(directory), new LocalDirectoryFileReader(upstream)], { maxFileSize: 64 });
+        const summary = report.diagnostics.map(({ ruleId, level, file, line }) => [ruleId, level, file, line]);
+        const react = relative(directory, 'react.md');
+
+        expect(report.valid).toBe(false);
+        expect(summary).toEqual(expect.arrayContaining([
+            ['frontmatter-schema', 'error', react, 2],
+            ['frontmatter-schema', 'error', react, 3],
+            ['broken-include', 'error', react, 4],
+            ['broken-include', 'error', react, 8],
+            ['broken-link', 'warning', react, 9],
+            ['oversized-file', 'warning', react, undefined],
+            ['duplicate-domain', 'error', relative(directory, 'react.mdc'), undefined],
+            ['invalid-domain', 'error', relative(directory, 'bad name.md'), undefined],
+            ['empty-body', 'error', relative(directory, 'empty.md'), 4],
+            ['frontmatter-syntax', 'warning', relative(directory, 'cursor.mdc'), 2],
+            ['invalid-glob', 'error', relative(directory, 'ranges.md'), 2],
+            ['composition-cycle', 'error', relative(directory, 'loop-a.md'), 2],
+            ['shadowed-domain', 'warning', relative(upstream, 'security.md'), undefined]
+        ]));
+        expect(report.diagnostics.filter(d => d.ruleId === 'broken-link').map(d => d.message)).toEqual(['Link guide.md points to a missing file', 'Link #nope does not match a heading in this rule']);
+        expect(report.errors).toBe(report.diagnostics.filter(d => d.level === 'error').length);
+    });
+
+    it('should convert reports to SARIF', async () => {
+        await write(directory, { 'empty.md': '---\ndescription: x\n---\n' });
+
+        const sarif = toSarif(await lintRuleSources([new LocalDirectoryFileReader(directory)]), '1.0.0');
+
+        expect(sarif.version).toBe('2.1.0');
+        expect(sarif.runs[0].tool.driver.rules.map(rule => rule.id)).toContain('empty-body');
+        expect(sarif.runs[0].results).toEqual([{
+            ruleId: 'empty-body', level: 'error', message: { text: 'Rule has no content' },
+            locations: [{ physicalLocation: { artifactLocation: { uri: relative(directory, 'empty.md') }, region: { startLine: 4 } } }]
+        }]);
+    });
+});
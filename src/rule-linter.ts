@@ -0,0 +1,278 @@
+import * as path from 'path';
+import { parseDocument, visit } from 'yaml';
+import { RuleContent, RuleSource, SKIP_FILES, isValidDomainName } from './rule-source.js';
+import { normalizeRuleMetadata, parseFrontmatter, validateRuleMetadata } from './rule-metadata.js';
+import { isValidGlob } from './rule-selector.js';
+import { extractSections, parseHeadings, slugify } from './markdown-outline.js';
+import { composeRule, findIncludeDirectives } from './rule-composition.js';
+
+export type DiagnosticLevel = 'error' | 'warning' | 'note';
+
+export const LINT_RULES = {
+  'source-unavailable': { level: 'error', description: 'The rule source could not be listed' },
+  'invalid-domain': { level: 'error', description: 'The file name does not produce a valid domain name' },
+  'duplicate-domain': { level: 'error', description: 'Several files in one source define the same domain and only the first is served' },
+  'shadowed-domain': { level: 'warning', description: 'A higher-priority source defines the same domain' },
+  'unreadable-rule': { level: 'error', description: 'The rule file could not be read' },
+  'frontmatter-syntax': { level: 'error', description: 'The frontmatter is not valid YAML' },
+  'frontmatter-schema': { level: 'error', description: 'A frontmatter field has the wrong type' },
+  'invalid-glob': { level: 'error', description: 'A globs or applyTo pattern cannot be compiled and never matches' },
+  'empty-body': { level: 'error', description: 'The rule has no content besides its frontmatter' },
+  'oversized-file': { level: 'warning', description: 'The rule file is larger than the configured limit' },
+  'broken-include': { level: 'error', description: 'An extends or include directive references a missing rule or section' },
+  'composition-cycle': { level: 'error', description: 'Extends and include directives form a cycle or exceed the depth limit' },
+  'broken-link': { level: 'warning', description: 'A relative link points to a missing rule file or heading' }
+} as const satisfies Record<string, { level: DiagnosticLevel; description: string }>;
+
+export type LintRuleId = keyof typeof LINT_RULES;
+
+export interface RuleDiagnostic {
+  ruleId: LintRuleId;
+  level: DiagnosticLevel;
+  message: string;
+  source: string;
+  domain?: string;
+  file?: string;
+  line?: number;
+}
+
+export interface LintReport {
+  valid: boolean;
+  sources: string[];
+  rulesChecked: number;
+  errors: number;
+  warnings: number;
+  diagnostics: RuleDiagnostic[];
+}
+
+export interface LintOptions {
+  maxFileSize?: number;
+}
+
+export const DEFAULT_MAX_RULE_FILE_SIZE = 64 * 1024;
+
+interface LintedFile {
+  source: RuleSource;
+  domain: string;
+  file?: string;
+  content: string;
+  body: string;
+  bodyLine: number;
+  frontmatter: string;
+  metadata: Record<string, unknown>;
+}
+
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*\r?\n([\s\S]*)$/;
+const LINK_PATTERN = /(?<!!)\[[^\]]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+
+const findKeyLine = (frontmatter: string, key: string): number | undefined => {
+  const index = frontmatter.split(/\r?\n/).findIndex(line => line.replace(/^\s+/, '').startsWith(`${key}:`));
+  return index === -1 ? undefined : index + 2;
+};
+
+const forEachProseLine = (body: string, visit: (line: string, index: number) => void): void => {
+  let fence: string | null = null;
+  body.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      return;
+    }
+    if (!fence) visit(line.replace(/`[^`]+`/g, ''), index);
+  });
+};
+
+const findYamlError = (frontmatter: string): { message: string; line?: number } | null => {
+  const document = parseDocument(frontmatter);
+  const [error] = document.errors;
+  if (error) return { message: error.message.split('\n')[0], line: error.linePos?.[0].line };
+
+  try {
+    document.toJS();
+    return null;
+  } catch (error) {
+    let offset: number | undefined;
+    visit(document, { Alias: (_, node) => { offset = node.range?.[0]; return visit.BREAK; } });
+    return { message: error instanceof Error ? error.message : String(error), ...(offset !== undefined && { line: frontmatter.slice(0, offset).split('\n').length }) };
+  }
+};
+
+const headingSlugs = (body: string): Set<string> => new Set(parseHeadings(body).map(heading => slugify(heading.title)));
+
+export const lintRuleSources = async (sources: RuleSource[], options: LintOptions = {}): Promise<LintReport> => {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_RULE_FILE_SIZE;
+  const diagnostics: RuleDiagnostic[] = [];
+  const report = (ruleId: LintRuleId, source: RuleSource, message: string, location: { domain?: string; file?: string; line?: number } = {}, level: DiagnosticLevel = LINT_RULES[ruleId].level) =>
+    diagnostics.push({ ruleId, level, message, source: source.name, ...location });
+
+  const files: LintedFile[] = [];
+  const sourcePaths = new Map<RuleSource, Set<string>>();
+  const owners = new Map<string, RuleSource>();
+
+  for (const source of sources) {
+    let entries: Array<{ domain: string; path?: string; size?: number }>;
+    try {
+      entries = source.listRuleFileEntries ? await source.listRuleFileEntries() : (await source.listRuleFiles()).map(domain => ({ domain }));
+    } catch (error) {
+      report('source-unavailable', source, `Could not list rules: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    sourcePaths.set(source, new Set(entries.flatMap(entry => entry.path ? [entry.path] : [])));
+    const served = new Map<string, string | undefined>();
+
+    for (const entry of entries) {
+      const location = { domain: entry.domain, ...(entry.path && { file: entry.path }) };
+      if (!isValidDomainName(entry.domain)) {
+        report('invalid-domain', source, `"${entry.domain}" is not a valid domain name; use letters, numbers, dots, dashes and underscores`, location);
+        continue;
+      }
+      if (served.has(entry.domain)) {
+        report('duplicate-domain', source, `${entry.path ?? entry.domain} is ignored because ${served.get(entry.domain) ?? 'another file'} already defines domain ${entry.domain}`, location);
+        continue;
+      }
+      served.set(entry.domain, entry.path);
+
+      const owner = owners.get(entry.domain);
+      if (owner) report('shadowed-domain', source, `${entry.domain} is shadowed by ${owner.name}`, location);
+      else owners.set(entry.domain, source);
+
+      if (entry.size !== undefined && entry.size > maxFileSize) report('oversized-file', source, `${entry.size} bytes exceeds the ${maxFileSize} byte limit`, location);
+
+      let content: string;
+      try {
+        content = (await source.readRuleFileDetails(entry.domain)).content;
+      } catch (error) {
+        report('unreadable-rule', source, `Could not read ${entry.domain}: ${error instanceof Error ? error.message : error}`, location);
+        continue;
+      }
+
+      const size = Buffer.byteLength(content, 'utf-8');
+      if (entry.size === undefined && size > maxFileSize) report('oversized-file', source, `${size} bytes exceeds the ${maxFileSize} byte limit`, location);
+
+      const match = content.match(FRONTMATTER_PATTERN);
+      if (!match && /^---\s*\r?\n/.test(content)) {
+        report('frontmatter-syntax', source, 'Frontmatter is not closed by a --- line, so it is served as part of the rule', { ...location, line: 1 });
+      }
+
+      const [, frontmatter = '', body = content] = match ?? [];
+      const bodyLine = match ? content.slice(0, content.length - body.length).split(/\r?\n/).length : 1;
+      const linted: LintedFile = { source, ...location, content, body, bodyLine, frontmatter, metadata: {} };
+
+      if (match) {
+        const syntaxError = findYamlError(frontmatter);
+        linted.metadata = parseFrontmatter(frontmatter);
+        if (syntaxError) {
+          const lenient = Object.keys(linted.metadata).length > 0;
+          report('frontmatter-syntax', source, `${syntaxError.message}${lenient ? ' (parsed leniently)' : ''}`,
+            { ...location, line: (syntaxError.line ?? 0) + 1 }, lenient ? 'warning' : 'error');
+        }
+
+        for (const problem of validateRuleMetadata(linted.metadata)) report('frontmatter-schema', source, problem.message, { ...location, line: findKeyLine(frontmatter, problem.key) });
+
+        const { globs = [], applyTo = [] } = normalizeRuleMetadata(linted.metadata);
+        for (const [key, patterns] of [['globs', globs], ['applyTo', applyTo]] as const) {
+          for (const pattern of patterns.filter(pattern => !isValidGlob(pattern))) {
+            report('invalid-glob', source, `Pattern ${pattern} is not a valid glob and never matches`, { ...location, line: findKeyLine(frontmatter, key) });
+          }
+        }
+      }
+
+      if (!body.trim()) report('empty-body', source, 'Rule has no content', { ...location, line: bodyLine });
+      files.push(linted);
+    }
+  }
+
+  const winners = new Map(files.filter(file => owners.get(file.domain) === file.source).map(file => [file.domain, file]));
+  const readWinner = async (domain: string): Promise<RuleContent | null> => {
+    const file = winners.get(domain);
+    return file ? { domain, content: file.body.trim(), metadata: normalizeRuleMetadata(file.metadata) } : null;
+  };
+
+  for (const file of files) {
+    const location = { domain: file.domain, ...(file.file && { file: file.file }) };
+    const parents = normalizeRuleMetadata(file.metadata).extends ?? [];
+    const extendsLine = findKeyLine(file.frontmatter, Object.keys(file.metadata).find(key => key.toLowerCase() === 'extends') ?? 'extends');
+
+    for (const parent of parents.filter(parent => !owners.has(parent))) {
+      report('broken-include', file.source, `extends unknown rule ${parent}`, { ...location, line: extendsLine });
+    }
+
+    for (const directive of findIncludeDirectives(file.body)) {
+      const line = file.bodyLine + directive.line;
+      const target = winners.get(directive.domain);
+      if (!owners.has(directive.domain)) report('broken-include', file.source, `includes unknown rule ${directive.domain}`, { ...location, line });
+      else if (directive.section && target && extractSections(target.body, [directive.section]).unmatched.length > 0) {
+        report('broken-include', file.source, `includes section "${directive.section}" which does not exist in ${directive.domain}`, { ...location, line });
+      }
+    }
+
+    if (winners.get(file.domain) === file && (parents.length > 0 || findIncludeDirectives(file.body).length > 0)) {
+      const composed = await composeRule(file.domain, readWinner);
+      const cycles = (composed?.rule.compositionErrors ?? []).filter(error => /^(Circular|Rule composition exceeds)/.test(error));
+      const line = extendsLine ?? file.bodyLine + (findIncludeDirectives(file.body)[0]?.line ?? 0);
+      for (const error of cycles) report('composition-cycle', file.source, error, { ...location, line });
+    }
+
+    const paths = sourcePaths.get(file.source) ?? new Set<string>();
+    const directories = new Set(Array.from(paths).map(filePath => path.posix.dirname(filePath)));
+    forEachProseLine(file.body, (text, index) => {
+      for (const [, link] of text.matchAll(LINK_PATTERN)) {
+        if (/^[a-z][a-z0-9+.-]*:/i.test(link) || link.startsWith('/')) continue;
+
+        const [target, anchor] = link.split('#');
+        const line = file.bodyLine + index;
+        if (!target) {
+          if (anchor && !headingSlugs(file.body).has(anchor.toLowerCase())) report('broken-link', file.source, `Link ${link} does not match a heading in this rule`, { ...location, line });
+          continue;
+        }
+
+        if (!file.file || !/\.mdc?$/.test(target) || SKIP_FILES.includes(path.posix.basename(target))) continue;
+        const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(file.file), decodeURIComponent(target)));
+        if (!directories.has(path.posix.dirname(resolved))) continue;
+
+        if (!paths.has(resolved)) {
+          report('broken-link', file.source, `Link ${link} points to a missing file`, { ...location, line });
+          continue;
+        }
+
+        const linked = files.find(candidate => candidate.source === file.source && candidate.file === resolved);
+        if (anchor && linked && !headingSlugs(linked.body).has(anchor.toLowerCase())) report('broken-link', file.source, `Link ${link} does not match a heading in ${linked.domain}`, { ...location, line });
+      }
+    });
+  }
+
+  const errors = diagnostics.filter(diagnostic => diagnostic.level === 'error').length;
+  return {
+    valid: errors === 0,
+    sources: sources.map(source => source.name),
+    rulesChecked: files.length,
+    errors,
+    warnings: diagnostics.filter(diagnostic => diagnostic.level === 'warning').length,
+    diagnostics
+  };
+};
+
+export const toSarif = (report: LintReport, version?: string) => ({
+  $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+  version: '2.1.0',
+  runs: [{
+    tool: {
+      driver: {
+        name: 'agent-rules-mcp',
+        ...(version && { version }),
+        informationUri: 'https://github.com/4regab/agent-rules-mcp',
+        rules: Object.entries(LINT_RULES).map(([id, rule]) => ({ id, shortDescription: { text: rule.description }, defaultConfiguration: { level: rule.level } }))
+      }
+    },
+    results: report.diagnostics.map(diagnostic => ({
+      ruleId: diagnostic.ruleId,
+      level: diagnostic.level,
+      message: { text: diagnostic.file ? diagnostic.message : `${diagnostic.source}: ${diagnostic.message}` },
+      ...(diagnostic.file && {
+        locations: [{ physicalLocation: { artifactLocation: { uri: diagnostic.file }, ...(diagnostic.line && { region: { startLine: diagnostic.line } }) } }]
+      })
+    }))
+  }]
+});
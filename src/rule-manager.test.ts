@@ -0,0 +1,300 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleManager } from './rule-manager.js';
+import { BaseRuleFileReader } from './rule-source.js';
+
+class InMemoryRuleSource extends BaseRuleFileReader {
+    readonly remote = false;
+
+    constructor(readonly name: string, private files: Record<string, string>) {
+        super();
+    }
+
+    async readRuleFile(domain: string): Promise<string> {
+        if (!(domain in this.files)) throw new Error(`Rule file not found for domain: ${domain}`);
+        return this.files[domain];
+    }
+
+    async listRuleFiles(): Promise<string[]> { return Object.keys(this.files); }
+
+    async ruleExists(domain: string): Promise<boolean> { return domain in this.files; }
+
+    setRule(domain: string, content: string): void { this.files[domain] = content; }
+
+    removeRule(domain: string): void { delete this.files[domain]; }
+
+    hasAuthToken(): boolean { return false; }
+
+    getRepositoryInfo(): string { return this.name; }
+}
+
+describe('RuleManager', () => {
+    describe('layered sources', () => {
+        const createManager = () => new RuleManager([
+            new InMemoryRuleSource('project', { react: '# Project React\n\n- Description: Project react rules' }),
+            new InMemoryRuleSource('team', { react: '# Team React', security: '# Team Security' }),
+            new InMemoryRuleSource('org', { security: '# Org Security', typescript: '# Org TypeScript' })
+        ]);
+
+        it('should merge domains from all sources with the highest priority winning', async () => {
+            const domains = await createManager().listAvailableDomains();
+
+            expect(domains.map(d => [d.domain, d.source])).toEqual([
+                ['react', 'project'],
+                ['security', 'team'],
+                ['typescript', 'org']
+            ]);
+        });
+
+        it('should report which sources a domain shadows', async () => {
+            const domains = await createManager().listAvailableDomains();
+
+            expect(domains.find(d => d.domain === 'react')?.shadows).toEqual(['team']);
+            expect(domains.find(d => d.domain === 'security')?.shadows).toEqual(['org']);
+            expect(domains.find(d => d.domain === 'typescript')?.shadows).toBeUndefined();
+        });
+
+        it('should read content from the winning source', async () => {
+            const manager = createManager();
+
+            const react = await manager.getRuleContent('react');
+            const security = await manager.getRuleContent('security');
+
+            expect(react?.description).toBe('Project react rules');
+            expect(react?.source).toBe('project');
+            expect(security?.content).toBe('# Team Security');
+        });
+
+        it('should fall back through sources before domains are listed', async () => {
+            const manager = createManager();
+
+            const typescript = await manager.getRuleContent('typescript');
+
+            expect(typescript?.source).toBe('org');
+            expect(await manager.getRuleContent('missing')).toBeNull();
+        });
+
+        it('should keep serving other sources when one fails to list', async () => {
+            const broken = new InMemoryRuleSource('broken', {});
+            broken.listRuleFiles = async () => { throw new Error('unreachable'); };
+            const manager = new RuleManager([broken, new InMemoryRuleSource('org', { security: '# Org Security' })]);
+
+            const domains = await manager.listAvailableDomains();
+
+            expect(domains.map(d => d.domain)).toEqual(['security']);
+        });
+    });
+
+    describe('searchRules', () => {
+        it('should rebuild the index when cached content changes', async () => {
+            const source = new InMemoryRuleSource('local', { security: '# Security\n\n## SQL\nUse parameterized queries' });
+            const manager = new RuleManager([source]);
+
+            expect((await manager.searchRules('parameterized'))[0].domain).toBe('security');
+
+            source.setRule('security', '# Security\n\n## SQL\nUse prepared statements');
+            manager.clearCache('security');
+
+            expect(await manager.searchRules('parameterized')).toEqual([]);
+            expect((await manager.searchRules('prepared'))[0].heading).toBe('SQL');
+        });
+    });
+
+    describe('onChange', () => {
+        it('should emit updates when refreshed content differs and list changes when domains change', async () => {
+            const source = new InMemoryRuleSource('local', { react: '# React' });
+            const manager = new RuleManager([source]);
+            const events: unknown[] = [];
+            manager.onChange(event => events.push(event));
+
+            await manager.listAvailableDomains();
+            manager.clearCache();
+            await manager.listAvailableDomains();
+            expect(events).toEqual([]);
+
+            source.setRule('react', '# React v2');
+            source.setRule('vue', '# Vue');
+            manager.clearCache();
+            await manager.listAvailableDomains();
+
+            source.removeRule('vue');
+            manager.clearCache();
+            await manager.listAvailableDomains();
+
+            expect(events).toEqual([
+                { type: 'listChanged', added: ['vue'], removed: [] },
+                { type: 'updated', domain: 'react' },
+                { type: 'listChanged', added: [], removed: ['vue'] }
+            ]);
+        });
+    });
+
+    describe('composition', () => {
+        it('should compose rules across sources and recompose when a dependency changes', async () => {
+            const org = new InMemoryRuleSource('org', { tailwind: '# Tailwind\n\n## Classes\nPrefer utilities' });
+            const manager = new RuleManager([
+                new InMemoryRuleSource('project', { 'nextjs-tailwind': '---\nextends: tailwind\n---\n# Next.js\n\n<!-- include: react#Hooks -->' }),
+                new InMemoryRuleSource('team', { react: '# React\n\n## Hooks\nCall hooks at the top level\n\n## State\nLift state up' }),
+                org
+            ]);
+            const events: unknown[] = [];
+            manager.onChange(event => events.push(event));
+
+            const rule = await manager.getRuleContent('nextjs-tailwind');
+
+            expect(rule?.content).toBe('# Tailwind\n\n## Classes\nPrefer utilities\n\n# Next.js\n\n## Hooks\nCall hooks at the top level');
+            expect(rule?.provenance).toEqual([
+                { domain: 'tailwind', via: 'extends', source: 'org', startLine: 1, endLine: 4 },
+                { domain: 'react', via: 'include', source: 'team', section: 'Hooks', startLine: 8, endLine: 9 }
+            ]);
+            expect(await manager.getRuleContent('nextjs-tailwind')).toBe(rule);
+
+            org.setRule('tailwind', '# Tailwind v4');
+            manager.clearCache('tailwind');
+
+            expect((await manager.getRuleContent('nextjs-tailwind'))?.content).toMatch(/^# Tailwind v4\n\n# Next\.js/);
+            expect(events).toEqual([{ type: 'updated', domain: 'tailwind' }, { type: 'updated', domain: 'nextjs-tailwind' }]);
+        });
+
+        it('should report cycles instead of failing the rule', async () => {
+            const manager = new RuleManager([new InMemoryRuleSource('local', { a: '---\nextends: b\n---\n# A', b: '---\nextends: a\n---\n# B' })]);
+
+            const rule = await manager.getRuleContent('a');
+
+            expect(rule?.content).toBe('# B\n\n# A');
+            expect(rule?.compositionErrors).toEqual(['Circular rule composition: a -> b -> a']);
+        });
+    });
+
+    describe('template variables', () => {
+        it('should render rules with configured variables and per-request overrides', async () => {
+            const manager = new RuleManager([new InMemoryRuleSource('local', {
+                node: '---\ndescription: Node {{nodeVersion}} rules\n---\n# Node {{nodeVersion}}\n\n<!-- include: tooling -->',
+                tooling: 'Use {{packageManager}}.'
+            })], { variables: { nodeVersion: '20' } });
+
+            expect(await manager.getRuleContent('node')).toMatchObject({ description: 'Node 20 rules', content: '# Node 20\n\nUse .', unresolvedVariables: ['packageManager'] });
+
+            const rendered = await manager.getRuleContent('node', { nodeVersion: '22', packageManager: 'pnpm' });
+            expect(rendered?.content).toBe('# Node 22\n\nUse pnpm.');
+            expect(rendered?.unresolvedVariables).toBeUndefined();
+            expect((await manager.getRuleContent('node'))?.content).toBe('# Node 20\n\nUse .');
+        });
+
+        it('should default to environment variables without reading a config file from the working directory', async () => {
+            const cwd = process.cwd();
+            const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-manager-'));
+            await fs.writeFile(path.join(directory, 'agent-rules.config.json'), '{"variables": {"nested": {"a": 1}}}');
+            process.env.RULES_VAR_nodeVersion = '24';
+            process.chdir(directory);
+            try {
+                const manager = new RuleManager([new InMemoryRuleSource('local', { node: '# Node {{nodeVersion}}' })]);
+
+                expect((await manager.getRuleContent('node'))?.content).toBe('# Node 24');
+            } finally {
+                process.chdir(cwd);
+                delete process.env.RULES_VAR_nodeVersion;
+                await fs.rm(directory, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('getRuleContentAtRef', () => {
+        it('should read from a source pinned to the requested ref', async () => {
+            const source = new InMemoryRuleSource('repo', { react: '# React v2' });
+            const pinned = new InMemoryRuleSource('repo@v1', { react: '# React v1' });
+            const manager = new RuleManager([Object.assign(source, { withRef: (ref: string) => ref === 'v1' ? pinned : source })]);
+
+            expect((await manager.getRuleContentAtRef('react', 'v1')).content).toBe('# React v1');
+            expect((await manager.getRuleContent('react'))?.content).toBe('# React v2');
+        });
+
+        it('should pin the source that owns the domain before any listing', async () => {
+            const withRef = (source: InMemoryRuleSource, files: Record<string, string>) => Object.assign(source, { withRef: () => new InMemoryRuleSource(`${source.name}@v1`, files) });
+            const manager = new RuleManager([
+                withRef(new InMemoryRuleSource('project', { react: '# Project React' }), { react: '# Project React v1' }),
+                withRef(new InMemoryRuleSource('org', { security: '# Org Security' }), { security: '# Org Security v1' })
+            ]);
+
+            expect((await manager.getRuleContentAtRef('security', 'v1')).content).toBe('# Org Security v1');
+        });
+
+        it('should share one reader per resolved commit and release readers beyond the limit', async () => {
+            const created: string[] = [];
+            const disposed: string[] = [];
+            const source = Object.assign(new InMemoryRuleSource('repo', { react: '# React' }), {
+                withRef: (ref: string) => {
+                    created.push(ref);
+                    return Object.assign(new InMemoryRuleSource(`repo@${ref}`, { react: `# React at ${ref}` }), {
+                        getRevision: async () => ref.startsWith('^') || ref.startsWith('~') ? 'c'.repeat(40) : ref,
+                        dispose: async () => { disposed.push(ref); }
+                    });
+                }
+            });
+            const manager = new RuleManager([source], { variables: {} });
+
+            expect((await manager.getRuleContentAtRef('react', '^1.0')).content).toBe(`# React at ${'c'.repeat(40)}`);
+            await manager.getRuleContentAtRef('react', '~1.2');
+            expect(created).toEqual(['^1.0', 'c'.repeat(40), '~1.2']);
+
+            for (let i = 0; i < 10; i++) await manager.getRuleContentAtRef('react', `branch-${i}`);
+            await manager.getRuleContentAtRef('react', '^1.0');
+
+            expect(disposed).toEqual(['^1.0', '~1.2', 'c'.repeat(40), 'branch-0', 'branch-1', 'branch-2', 'branch-3']);
+            expect(created.slice(-2)).toEqual(['^1.0', 'c'.repeat(40)]);
+        });
+
+        it('should reject sources without ref support', async () => {
+            const manager = new RuleManager([new InMemoryRuleSource('local', { react: '# React' })]);
+
+            await expect(manager.getRuleContentAtRef('react', 'v1')).rejects.toThrow('Rule source local does not support ref overrides');
+        });
+    });
+
+    describe('status and refresh', () => {
+        it('should report cache hits, misses and upstream errors per domain', async () => {
+            const broken = Object.assign(new InMemoryRuleSource('broken', {}), { listRuleFiles: async () => { throw new Error('connect ECONNREFUSED'); } });
+            const manager = new RuleManager([new InMemoryRuleSource('local', { react: '# React' }), broken], { variables: {} });
+
+            await manager.listAvailableDomains();
+            await manager.getRuleContent('react');
+            const status = await manager.getStatus();
+
+            expect(status.sources.map(({ name, auth, info }) => ({ name, auth, info }))).toEqual([{ name: 'local', auth: 'none', info: 'local' }, { name: 'broken', auth: 'none', info: 'broken' }]);
+            expect(status.cache).toMatchObject({ size: 1, hits: 1, misses: 1, domains: [{ domain: 'react', hits: 1, misses: 1, cached: true, ageSeconds: 0, source: 'local' }] });
+            expect(status.recentErrors).toMatchObject([{ source: 'broken', message: 'connect ECONNREFUSED' }]);
+        });
+
+        it('should explain generic descriptions for unauthenticated remote sources', async () => {
+            const domains = Object.fromEntries(['a', 'b', 'c', 'd', 'e', 'f'].map(domain => [domain, `# ${domain}`]));
+            const manager = new RuleManager([Object.assign(new InMemoryRuleSource('remote', domains), { remote: true })], { variables: {} });
+
+            await manager.listAvailableDomains();
+
+            expect((await manager.getStatus()).notes).toEqual([expect.stringContaining('list_rules returns generic descriptions for 6 domains')]);
+        });
+
+        it('should invalidate sources and re-fetch selected or all rules', async () => {
+            const source = Object.assign(new InMemoryRuleSource('local', { react: '# React', testing: '# Testing' }), { invalidate: () => { invalidations++; } });
+            let invalidations = 0;
+            const manager = new RuleManager([source], { variables: {} });
+            const events: unknown[] = [];
+            manager.onChange(event => events.push(event));
+            await manager.listAvailableDomains();
+
+            source.setRule('react', '# React v2');
+            expect(await manager.refreshRules(['react', 'missing'])).toEqual({ refreshed: [{ domain: 'react', source: 'local', changed: true }], missing: ['missing'] });
+            expect((await manager.getRuleContent('react'))?.content).toBe('# React v2');
+
+            source.setRule('vue', '# Vue');
+            expect(await manager.refreshRules()).toEqual({
+                refreshed: [{ domain: 'react', source: 'local', changed: false }, { domain: 'testing', source: 'local', changed: false }, { domain: 'vue', source: 'local', changed: false }],
+                missing: []
+            });
+            expect(invalidations).toBe(2);
+            expect(events).toEqual([{ type: 'updated', domain: 'react' }, { type: 'listChanged', added: ['vue'], removed: [] }]);
+        });
+    });
+});
@@ -1,61 +1,249 @@
-import { GitHubRepositoryFileReader, RuleContent, DomainInfo } from './github-repository-file-reader.js';
+import { RuleContent, DomainInfo, RuleFile, RuleHistoryOptions, RuleSource, SourceStatus, UpstreamError } from './rule-source.js';
+import { createRuleSources } from './rule-source-factory.js';
+import { pickSummaryMetadata } from './rule-metadata.js';
+import { FileRuleMatch, selectRulesForFiles } from './rule-selector.js';
+import { RuleSearchIndex, SearchHit, SearchOptions } from './rule-search-index.js';
+import { RuleDiff, createRuleDiff } from './rule-diff.js';
+import { ExportTarget, RuleExport, exportRules } from './rule-export.js';
+import { composeRule, hasCompositionDirectives } from './rule-composition.js';
+import { TemplateVariables, loadEnvVariables, renderTemplate } from './rule-template.js';
+import { DEFAULT_CACHE_TTL, getTtlFromEnv } from './disk-cache.js';
+import { isSemverRange } from './git-ref.js';
 import { Logger } from './error-handler.js';
+import { createHash } from 'crypto';
+
+export type RuleChangeEvent =
+  | { type: 'updated'; domain: string }
+  | { type: 'listChanged'; added: string[]; removed: string[] };
+
+interface ComposedCacheEntry {
+  rule: RuleContent;
+  fingerprints: Map<string, string | undefined>;
+}
+
+interface ResolvedDomain {
+  domain: string;
+  source: RuleSource;
+  shadows: RuleSource[];
+}
+
+export interface CacheEntryStatus {
+  domain: string;
+  hits: number;
+  misses: number;
+  cached: boolean;
+  ageSeconds?: number;
+  source?: string;
+  commit?: string;
+  stale?: boolean;
+}
+
+export interface ServerStatus {
+  sources: SourceStatus[];
+  cache: { ttlSeconds: number; size: number; hits: number; misses: number; domains: CacheEntryStatus[] };
+  recentErrors: UpstreamError[];
+  notes: string[];
+}
+
+export interface RefreshResult {
+  refreshed: Array<{ domain: string; source?: string; commit?: string; changed: boolean; stale?: boolean }>;
+  missing: string[];
+}
+
+const MAX_UPSTREAM_ERRORS = 20;
+const MAX_REF_SOURCES = 8;
+const METADATA_DOMAIN_LIMIT = 5;
+
+export interface RuleManagerOptions {
+  cacheTtl?: number;
+  variables?: TemplateVariables;
+}
 
 export class RuleManager {
-  private fileReader: GitHubRepositoryFileReader;
+  private sources: RuleSource[];
+  private domainSources: Map<string, RuleSource> = new Map();
   private cache: Map<string, RuleContent> = new Map();
   private cacheTimestamps: Map<string, number> = new Map();
-  private readonly CACHE_TTL = 5 * 60 * 1000;
+  private readonly cacheTtl: number;
+  private readonly variables: TemplateVariables;
+  private ruleFiles: Map<string, { source: RuleSource; file: RuleFile }> = new Map();
+  private cacheVersion = 0;
+  private searchIndex = new RuleSearchIndex();
+  private searchIndexVersion = -1;
+  private contentFingerprints: Map<string, string> = new Map();
+  private knownDomains: Set<string> | null = null;
+  private changeListeners: Set<(event: RuleChangeEvent) => void> = new Set();
+  private refSources: Map<string, RuleSource> = new Map();
+  private composedCache: Map<string, ComposedCacheEntry> = new Map();
+  private dependents: Map<string, Set<string>> = new Map();
+  private cacheAccess: Map<string, { hits: number; misses: number }> = new Map();
+  private upstreamErrors: UpstreamError[] = [];
+  private genericDescriptions = 0;
 
-  constructor() { this.fileReader = new GitHubRepositoryFileReader(); }
+  constructor(sources?: RuleSource[], options: RuleManagerOptions = {}) {
+    this.sources = sources && sources.length > 0 ? sources : createRuleSources();
+    this.cacheTtl = options.cacheTtl ?? getTtlFromEnv('RULES_CACHE_TTL', DEFAULT_CACHE_TTL);
+    this.variables = options.variables ?? loadEnvVariables();
+  }
+
+  async getRuleContent(domain: string, variables?: TemplateVariables): Promise<RuleContent | null> {
+    if (variables && Object.keys(variables).length > 0) return this.renderRuleContent(domain, { ...this.variables, ...variables });
+
+    const rule = await this.readRuleContent(domain);
+    if (!rule || !hasCompositionDirectives(rule)) return rule;
+
+    const cached = this.composedCache.get(domain);
+    if (cached && this.isComposedFresh(domain, cached)) return cached.rule;
 
-  async getRuleContent(domain: string): Promise<RuleContent | null> {
+    try {
+      const composed = await composeRule(domain, dependency => dependency === domain ? Promise.resolve(rule) : this.readRuleContent(dependency));
+      if (!composed) return null;
+
+      if (composed.rule.compositionErrors) Logger.warn(`Rule ${domain} could not be fully composed`, { domain, errors: composed.rule.compositionErrors });
+      const fingerprints = new Map([domain, ...composed.dependencies].map(dependency => [dependency, this.contentFingerprints.get(dependency)]));
+      this.composedCache.set(domain, { rule: composed.rule, fingerprints });
+      this.dependents.forEach(dependents => dependents.delete(domain));
+      for (const dependency of composed.dependencies) this.dependents.set(dependency, (this.dependents.get(dependency) ?? new Set()).add(domain));
+
+      return composed.rule;
+    } catch (error) {
+      Logger.error(`Error composing rule for domain ${domain}`, error, { domain });
+      return rule;
+    }
+  }
+
+  private async renderRuleContent(domain: string, variables: TemplateVariables): Promise<RuleContent | null> {
+    const read = async (dependency: string): Promise<RuleContent | null> => {
+      const cached = await this.readRuleContent(dependency);
+      const raw = this.ruleFiles.get(dependency);
+      return cached && raw ? this.toRuleContent(raw.source, dependency, raw.file, variables) : cached;
+    };
+
+    const rule = await read(domain);
+    if (!rule || !hasCompositionDirectives(rule)) return rule;
+
+    const composed = await composeRule(domain, dependency => dependency === domain ? Promise.resolve(rule) : read(dependency));
+    return composed?.rule ?? rule;
+  }
+
+  private async readRuleContent(domain: string): Promise<RuleContent | null> {
     try {
       const cached = this.getCachedContent(domain);
+      this.recordCacheAccess(domain, !!cached);
       if (cached) return cached;
 
-      if (this.fileReader.hasAuthToken()) {
-        const exists = await this.fileReader.ruleExists(domain);
-        if (!exists) {
-          Logger.warn(`Rule not found for domain: ${domain}`, { domain });
-          return null;
-        }
-      }
+      const candidates = this.getCandidateSources(domain);
+      for (const source of candidates) {
+        try {
+          if (source.hasAuthToken() && !(await source.ruleExists(domain))) continue;
 
-      const content = await this.fileReader.readRuleFile(domain);
-      const ruleContent = this.fileReader.parseRuleContent(content, domain);
+          const file = await source.readRuleFileDetails(domain);
+          const ruleContent = this.toRuleContent(source, domain, file, this.variables);
 
-      this.cache.set(domain, ruleContent);
-      this.cacheTimestamps.set(domain, Date.now());
+          this.ruleFiles.set(domain, { source, file });
+          this.cacheRuleContent(domain, ruleContent);
+          return ruleContent;
+        } catch (error) {
+          this.recordUpstreamError(error, source, domain);
+          if (candidates.length === 1) throw error;
+          Logger.warn(`Rule not readable from source ${source.name}`, { domain, error: error instanceof Error ? error.message : error });
+        }
+      }
 
-      return ruleContent;
+      Logger.warn(`Rule not found for domain: ${domain}`, { domain });
+      return null;
     } catch (error) {
       Logger.error(`Error getting rule content for domain ${domain}`, error, { domain });
       return null;
     }
   }
 
+  async getRuleContentAtRef(domain: string, ref: string, variables: TemplateVariables = {}): Promise<RuleContent> {
+    if (!this.domainSources.has(domain)) await this.resolveDomains();
+
+    const source = this.domainSources.get(domain) ?? this.sources.find(candidate => candidate.withRef);
+    if (!source?.withRef) throw new Error(`Rule source ${source?.name ?? this.sources[0].name} does not support ref overrides`);
+
+    const range = isSemverRange(ref) ? this.getRefSource(source, ref) : undefined;
+    const commit = await range?.getRevision?.();
+    const pinned = range && !commit ? range : this.getRefSource(source, commit ?? ref);
+
+    const read = async (dependency: string) => this.toRuleContent(pinned, dependency, await pinned.readRuleFileDetails(dependency), { ...this.variables, ...variables });
+    const rule = await read(domain);
+    if (!hasCompositionDirectives(rule)) return rule;
+
+    const composed = await composeRule(domain, dependency => dependency === domain ? Promise.resolve(rule) : read(dependency).catch(() => null));
+    return composed?.rule ?? rule;
+  }
+
+  // Readers pinned to client-supplied refs are kept in a small LRU; evicted ones release their checkouts.
+  private getRefSource(source: RuleSource, ref: string): RuleSource {
+    const key = `${source.name}#${ref}`;
+    const pinned = this.refSources.get(key) ?? source.withRef!(ref);
+    this.refSources.delete(key);
+    this.refSources.set(key, pinned);
+
+    for (const [evicted, reader] of this.refSources) {
+      if (this.refSources.size <= MAX_REF_SOURCES) break;
+      this.refSources.delete(evicted);
+      if (!this.sources.includes(reader)) reader.dispose?.().catch(error => Logger.warn(`Failed to release ${reader.name}`, { error: error instanceof Error ? error.message : error }));
+    }
+
+    return pinned;
+  }
+
+  async diffRule(domain: string, options: RuleHistoryOptions): Promise<RuleDiff> {
+    if (!this.domainSources.has(domain)) await this.resolveDomains();
+
+    const source = this.domainSources.get(domain) ?? this.sources.find(candidate => candidate.getRuleHistory);
+    if (!source?.getRuleHistory) throw new Error(`Rule source ${source?.name ?? this.sources[0].name} does not support rule history`);
+
+    return createRuleDiff(domain, source.name, await source.getRuleHistory(domain, options));
+  }
+
+  private toRuleContent(source: RuleSource, domain: string, file: RuleFile, variables: TemplateVariables): RuleContent {
+    const { path, sha, commit, stale } = file;
+    if (stale) Logger.warn(`Serving stale cached copy of ${domain} from ${source.name}`, { domain });
+
+    const { content, unresolved } = renderTemplate(file.content, variables);
+    if (unresolved.length > 0) Logger.warn(`Unresolved template variables in ${domain}: ${unresolved.join(', ')}`, { domain });
+
+    return {
+      ...source.parseRuleContent(content, domain), source: source.name, ...(path && { path }), ...(sha && { sha }), ...(commit && { commit }), ...(stale && { stale }),
+      ...(unresolved.length > 0 && { unresolvedVariables: unresolved })
+    };
+  }
+
   async listAvailableDomains(): Promise<DomainInfo[]> {
     try {
-      const domains = await this.fileReader.listRuleFiles();
-      const hasToken = this.fileReader.hasAuthToken();
-
-      if (!hasToken && domains.length > 5) {
-        return domains.map(domain => ({ domain, description: `Development rules and guidelines for ${domain.replace(/[-_]/g, ' ')}` }));
-      }
+      const resolved = await this.resolveDomains();
+      const unauthenticatedRemote = resolved.filter(({ source }) => source.remote && !source.hasAuthToken());
+      const skipMetadata = unauthenticatedRemote.length > METADATA_DOMAIN_LIMIT;
+      this.genericDescriptions = skipMetadata ? unauthenticatedRemote.length : 0;
 
       const domainInfos: DomainInfo[] = [];
-      for (const domain of domains) {
+      for (const { domain, source, shadows } of resolved) {
+        const origin = { source: source.name, ...(shadows.length > 0 && { shadows: shadows.map(s => s.name) }) };
+
+        if (skipMetadata && source.remote && !source.hasAuthToken()) {
+          domainInfos.push({ domain, description: `Development rules and guidelines for ${domain.replace(/[-_]/g, ' ')}`, ...origin });
+          continue;
+        }
+
         try {
           const ruleContent = await this.getRuleContent(domain);
           domainInfos.push(ruleContent ? {
             domain: ruleContent.domain,
             description: ruleContent.description || `Rules for ${domain}`,
-            lastUpdated: ruleContent.lastUpdated
-          } : { domain, description: `Rules for ${domain} (metadata unavailable)` });
+            lastUpdated: ruleContent.lastUpdated,
+            ...pickSummaryMetadata(ruleContent.metadata),
+            ...origin,
+            ...(ruleContent.commit && { commit: ruleContent.commit }),
+            ...(ruleContent.stale && { stale: true })
+          } : { domain, description: `Rules for ${domain} (metadata unavailable)`, ...origin });
         } catch (error) {
           Logger.warn(`Failed to process domain ${domain}`, { domain, error: error instanceof Error ? error.message : error });
-          domainInfos.push({ domain, description: `Rules for ${domain} (metadata unavailable)` });
+          domainInfos.push({ domain, description: `Rules for ${domain} (metadata unavailable)`, ...origin });
         }
       }
 
@@ -66,36 +254,268 @@ export class RuleManager {
     }
   }
 
+  async getAllRuleContents(): Promise<RuleContent[]> {
+    const resolved = await this.resolveDomains();
+    const domains = resolved.map(({ domain }) => domain);
+    const contents = await this.getMultipleRuleContents(domains);
+    return domains.map(domain => contents.get(domain)).filter((rule): rule is RuleContent => !!rule);
+  }
+
+  async getRuleTemplates(): Promise<RuleContent[]> {
+    const resolved = await this.resolveDomains();
+    const rules = await Promise.all(resolved.map(async ({ domain }): Promise<RuleContent | null> => {
+      const raw = await this.readRuleContent(domain) && this.ruleFiles.get(domain);
+      if (!raw) return null;
+
+      const { source, file: { content, path, sha, commit } } = raw;
+      return { ...source.parseRuleContent(content, domain), content, source: source.name, ...(path && { path }), ...(sha && { sha }), ...(commit && { commit }) };
+    }));
+    return rules.filter((rule): rule is RuleContent => !!rule);
+  }
+
+  async exportRules(target: ExportTarget, domains: string[] = []): Promise<RuleExport> {
+    if (domains.length === 0) return exportRules(await this.getAllRuleContents(), target);
+
+    const contents = await this.getMultipleRuleContents(domains);
+    const missing = domains.filter(domain => !contents.get(domain));
+    if (missing.length > 0) throw new Error(`Rules not found: ${missing.join(', ')}`);
+    return exportRules(domains.map(domain => contents.get(domain)!), target);
+  }
+
+  async getRulesForFiles(filePaths: string[]): Promise<FileRuleMatch[]> {
+    return selectRulesForFiles(await this.getAllRuleContents(), filePaths);
+  }
+
+  async searchRules(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const rules = await this.getAllRuleContents();
+
+    if (this.searchIndexVersion !== this.cacheVersion) {
+      this.searchIndex.build(rules);
+      this.searchIndexVersion = this.cacheVersion;
+      Logger.info(`Search index rebuilt with ${this.searchIndex.size} sections from ${rules.length} rules`);
+    }
+
+    return this.searchIndex.search(query, options);
+  }
+
+  private async resolveDomains(): Promise<ResolvedDomain[]> {
+    const listings = await Promise.all(this.sources.map(async (source) => {
+      try {
+        return await source.listRuleFiles();
+      } catch (error) {
+        this.recordUpstreamError(error, source);
+        Logger.warn(`Failed to list rules from source ${source.name}`, { source: source.name, error: error instanceof Error ? error.message : error });
+        return null;
+      }
+    }));
+
+    const resolved = new Map<string, ResolvedDomain>();
+    listings.forEach((domains, index) => {
+      const source = this.sources[index];
+      for (const domain of domains || []) {
+        const existing = resolved.get(domain);
+        if (existing) existing.shadows.push(source);
+        else resolved.set(domain, { domain, source, shadows: [] });
+      }
+    });
+
+    this.domainSources = new Map(Array.from(resolved.values()).map(({ domain, source }) => [domain, source]));
+
+    if (listings.every(domains => domains === null)) return Array.from(resolved.values());
+
+    const previousDomains = this.knownDomains;
+    this.knownDomains = new Set(resolved.keys());
+    if (previousDomains) {
+      const added = Array.from(resolved.keys()).filter(domain => !previousDomains.has(domain));
+      const removed = Array.from(previousDomains).filter(domain => !resolved.has(domain));
+      if (added.length > 0 || removed.length > 0) this.emitChange({ type: 'listChanged', added, removed });
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  private cacheRuleContent(domain: string, ruleContent: RuleContent): void {
+    this.cache.set(domain, ruleContent);
+    this.cacheTimestamps.set(domain, Date.now());
+    this.cacheVersion++;
+
+    const fingerprint = createHash('sha256').update(JSON.stringify({ ...ruleContent, commit: undefined, stale: undefined })).digest('hex');
+    const previous = this.contentFingerprints.get(domain);
+    this.contentFingerprints.set(domain, fingerprint);
+    if (previous && previous !== fingerprint) {
+      this.emitChange({ type: 'updated', domain });
+      for (const dependent of this.invalidateDependents(domain)) this.emitChange({ type: 'updated', domain: dependent });
+    }
+  }
+
+  private invalidateDependents(domain: string): string[] {
+    const dependents = Array.from(this.dependents.get(domain) ?? []);
+    dependents.forEach(dependent => this.composedCache.delete(dependent));
+    return dependents;
+  }
+
+  private isComposedFresh(domain: string, entry: ComposedCacheEntry): boolean {
+    return Array.from(entry.fingerprints).every(([dependency, fingerprint]) =>
+      (dependency === domain || this.getCachedContent(dependency) !== null) && this.contentFingerprints.get(dependency) === fingerprint);
+  }
+
+  onChange(listener: (event: RuleChangeEvent) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => { this.changeListeners.delete(listener); };
+  }
+
+  private emitChange(event: RuleChangeEvent): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        Logger.warn('Rule change listener failed', { event, error: error instanceof Error ? error.message : error });
+      }
+    }
+  }
+
+  private getCandidateSources(domain: string): RuleSource[] {
+    const known = this.domainSources.get(domain);
+    return known ? [known] : this.sources;
+  }
+
   private getCachedContent(domain: string): RuleContent | null {
     const cached = this.cache.get(domain);
     const timestamp = this.cacheTimestamps.get(domain);
 
-    if (cached && timestamp && (Date.now() - timestamp) < this.CACHE_TTL) return cached;
+    if (cached && timestamp && (Date.now() - timestamp) < this.cacheTtl) return cached;
 
     if (cached) {
       this.cache.delete(domain);
       this.cacheTimestamps.delete(domain);
+      this.cacheVersion++;
     }
 
     return null;
   }
 
   clearCache(domain?: string): void {
+    this.cacheVersion++;
     if (domain) {
-      this.cache.delete(domain);
-      this.cacheTimestamps.delete(domain);
+      this.evictCache(domain);
       Logger.info(`Cache cleared for domain: ${domain}`, { domain });
     } else {
       this.cache.clear();
       this.cacheTimestamps.clear();
+      this.composedCache.clear();
       Logger.info('All cache cleared');
     }
   }
 
+  private evictCache(domain: string): void {
+    this.cache.delete(domain);
+    this.cacheTimestamps.delete(domain);
+    this.composedCache.delete(domain);
+    this.invalidateDependents(domain);
+  }
+
+  async refreshSource(source: RuleSource, domains: string[] = []): Promise<void> {
+    source.invalidate?.();
+    await this.resolveDomains();
+
+    const affected = Array.from(this.contentFingerprints.keys()).filter(domain => (domains.length === 0 || domains.includes(domain))
+      && (this.domainSources.get(domain) === source || this.ruleFiles.get(domain)?.source === source));
+    if (affected.length === 0) return;
+
+    this.cacheVersion++;
+    affected.forEach(domain => this.evictCache(domain));
+    Logger.info(`Rules changed in ${source.name}, reloading ${affected.length} cached rule${affected.length === 1 ? '' : 's'}`, { domains: affected });
+    await this.getMultipleRuleContents(affected);
+  }
+
+  getKnownDomains(): string[] {
+    return Array.from(this.knownDomains ?? []);
+  }
+
   getCacheStats(): { size: number; domains: string[] } {
     return { size: this.cache.size, domains: Array.from(this.cache.keys()) };
   }
 
+  async getStatus(): Promise<ServerStatus> {
+    const sources = await Promise.all(this.sources.map(async (source): Promise<SourceStatus> => {
+      await source.getRevision?.().catch(() => undefined);
+      return {
+        name: source.name, remote: source.remote, auth: !source.remote ? 'none' : source.hasAuthToken() ? 'token' : 'anonymous',
+        ...source.getStatus?.(), info: source.getRepositoryInfo()
+      };
+    }));
+
+    const now = Date.now();
+    const domains = Array.from(new Set([...this.cacheAccess.keys(), ...this.cache.keys()])).sort().map((domain): CacheEntryStatus => {
+      const { hits, misses } = this.cacheAccess.get(domain) ?? { hits: 0, misses: 0 };
+      const timestamp = this.cacheTimestamps.get(domain);
+      const cached = this.cache.has(domain) && timestamp !== undefined && now - timestamp < this.cacheTtl;
+      const rule = cached ? this.cache.get(domain) : undefined;
+      return {
+        domain, hits, misses, cached, ...(cached && { ageSeconds: Math.round((now - timestamp!) / 1000) }),
+        ...(rule?.source && { source: rule.source }), ...(rule?.commit && { commit: rule.commit }), ...(rule?.stale && { stale: true })
+      };
+    });
+    const totals = domains.reduce((sum, entry) => ({ hits: sum.hits + entry.hits, misses: sum.misses + entry.misses }), { hits: 0, misses: 0 });
+
+    const notes: string[] = [];
+    if (this.genericDescriptions > 0) {
+      notes.push(`list_rules returns generic descriptions for ${this.genericDescriptions} domains because more than ${METADATA_DOMAIN_LIMIT} come from remote sources without a token; set GITHUB_TOKEN (or the source's token) to load their metadata`);
+    }
+    for (const source of sources) {
+      if (source.rateLimit?.remaining === 0 || source.rateLimit?.pausedUntil) {
+        notes.push(`${source.name} is rate limited until ${source.rateLimit.pausedUntil ?? source.rateLimit.resetAt ?? 'the limit resets'}; cached copies are served meanwhile`);
+      } else if (source.stale) {
+        notes.push(`${source.name} is unreachable; cached copies are served`);
+      }
+    }
+
+    return {
+      sources,
+      cache: { ttlSeconds: Math.round(this.cacheTtl / 1000), size: domains.filter(entry => entry.cached).length, ...totals, domains },
+      recentErrors: [...this.upstreamErrors].reverse(),
+      notes
+    };
+  }
+
+  async refreshRules(domains: string[] = []): Promise<RefreshResult> {
+    const selected = domains.length > 0 && domains.every(domain => this.domainSources.has(domain));
+    const sources = selected ? Array.from(new Set(domains.map(domain => this.domainSources.get(domain)!))) : this.sources;
+    sources.forEach(source => source.invalidate?.());
+
+    if (domains.length > 0) domains.forEach(domain => this.clearCache(domain));
+    else this.clearCache();
+
+    const targets = domains.length > 0 ? domains : (await this.resolveDomains()).map(({ domain }) => domain);
+    const previous = new Map(targets.map(domain => [domain, this.contentFingerprints.get(domain)]));
+    const contents = await this.getMultipleRuleContents(targets);
+
+    return {
+      refreshed: targets.flatMap((domain) => {
+        const rule = contents.get(domain);
+        return rule ? [{
+          domain, ...(rule.source && { source: rule.source }), ...(rule.commit && { commit: rule.commit }),
+          changed: previous.get(domain) !== undefined && previous.get(domain) !== this.contentFingerprints.get(domain), ...(rule.stale && { stale: true })
+        }] : [];
+      }),
+      missing: targets.filter(domain => !contents.get(domain))
+    };
+  }
+
+  private recordCacheAccess(domain: string, hit: boolean): void {
+    const access = this.cacheAccess.get(domain) ?? { hits: 0, misses: 0 };
+    if (hit) access.hits++;
+    else access.misses++;
+    this.cacheAccess.set(domain, access);
+  }
+
+  private recordUpstreamError(error: unknown, source: RuleSource, domain?: string): void {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('Rule file not found')) return;
+    this.upstreamErrors.push({ time: new Date().toISOString(), source: source.name, ...(domain && { domain }), message });
+    if (this.upstreamErrors.length > MAX_UPSTREAM_ERRORS) this.upstreamErrors.shift();
+  }
+
   private requestPromises: Map<string, Promise<RuleContent | null>> = new Map();
 
   async getRuleContentSafe(domain: string): Promise<RuleContent | null> {
@@ -129,5 +549,7 @@ export class RuleManager {
     return results;
   }
 
-  getRulesDirectory(): string { return this.fileReader.getRepositoryInfo(); }
-}
\ No newline at end of file
+  getSources(): RuleSource[] { return [...this.sources]; }
+
+  getRulesDirectory(): string { return this.sources.map(source => source.getRepositoryInfo()).join(' > '); }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseFrontmatter, normalizeRuleMetadata, pickSummaryMetadata } from './rule-metadata.js';
+import { GitHubRepositoryFileReader } from './github-repository-file-reader.js';
+
+describe('rule metadata', () => {
+    describe('parseFrontmatter', () => {
+        it('should parse lists, nested keys and multi-line values', () => {
+            const data = parseFrontmatter([
+                'description: >',
+                '  Multi-line',
+                '  description',
+                'tags:',
+                '  - react',
+                '  - frontend',
+                'owner:',
+                '  team: web',
+                'alwaysApply: true'
+            ].join('\n'));
+
+            expect(data.description).toBe('Multi-line description\n');
+            expect(data.tags).toEqual(['react', 'frontend']);
+            expect(data.owner).toEqual({ team: 'web' });
+            expect(data.alwaysApply).toBe(true);
+        });
+
+        it('should keep version and date values as written', () => {
+            const data = parseFrontmatter('version: 1.0\nlast_updated: 2025-01-26');
+
+            expect(data.version).toBe('1.0');
+            expect(data.last_updated).toBe('2025-01-26');
+        });
+
+        it('should fall back to line parsing for unquoted Cursor globs', () => {
+            const data = parseFrontmatter('description: Cursor rule\nglobs: **/*.ts,**/*.tsx\nalwaysApply: false');
+
+            expect(data.description).toBe('Cursor rule');
+            expect(data.globs).toBe('**/*.ts,**/*.tsx');
+            expect(data.alwaysApply).toBe('false');
+        });
+    });
+
+    describe('normalizeRuleMetadata', () => {
+        it('should normalize known fields and keep unknown keys', () => {
+            const metadata = normalizeRuleMetadata({
+                globs: '**/*.ts, **/*.tsx',
+                apply_to: ['src/**'],
+                alwaysApply: 'false',
+                priority: '10',
+                author: ['alice', 'bob'],
+                depends_on: 'typescript',
+                tags: 'react, ui',
+                custom: { nested: true }
+            });
+
+            expect(metadata).toMatchObject({
+                globs: ['**/*.ts', '**/*.tsx'],
+                applyTo: ['src/**'],
+                alwaysApply: false,
+                priority: 10,
+                author: 'alice, bob',
+                dependsOn: ['typescript'],
+                tags: ['react', 'ui'],
+                custom: { nested: true }
+            });
+        });
+
+        it('should pick only summary fields that are set', () => {
+            expect(pickSummaryMetadata(normalizeRuleMetadata({ tags: ['a'], custom: 1 }))).toEqual({ tags: ['a'] });
+            expect(pickSummaryMetadata(undefined)).toEqual({});
+        });
+    });
+
+    describe('parseRuleContent', () => {
+        it('should attach typed metadata for Copilot instruction files', () => {
+            const reader = new GitHubRepositoryFileReader('test', 'test', 'rules', 'main');
+
+            const rule = reader.parseRuleContent('---\ndescription: "TypeScript guidance"\napplyTo: "**/*.ts"\nversion: 2.0\n---\n# TypeScript', 'typescript');
+
+            expect(rule.description).toBe('TypeScript guidance');
+            expect(rule.version).toBe('2.0');
+            expect(rule.metadata?.applyTo).toEqual(['**/*.ts']);
+            expect(rule.content).toBe('# TypeScript');
+        });
+    });
+});
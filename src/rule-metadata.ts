@@ -0,0 +1,147 @@
+import { parseDocument, isScalar } from 'yaml';
+
+export interface RuleMetadata {
+  tags?: string[];
+  globs?: string[];
+  applyTo?: string[];
+  alwaysApply?: boolean;
+  priority?: number;
+  author?: string;
+  dependsOn?: string[];
+  extends?: string[];
+  [key: string]: unknown;
+}
+
+export type RuleSummaryMetadata = Pick<RuleMetadata, 'tags' | 'globs' | 'applyTo' | 'alwaysApply' | 'priority' | 'author' | 'dependsOn' | 'extends'>;
+
+const FIELD_ALIASES: Record<keyof RuleSummaryMetadata, string[]> = {
+  tags: ['tags', 'tag', 'keywords'],
+  globs: ['globs', 'glob'],
+  applyTo: ['applyto', 'apply_to', 'apply-to'],
+  alwaysApply: ['alwaysapply', 'always_apply', 'always-apply'],
+  priority: ['priority'],
+  author: ['author', 'authors'],
+  dependsOn: ['dependson', 'depends_on', 'depends-on', 'requires'],
+  extends: ['extends']
+};
+
+const STRING_FIELDS = ['version', 'last_updated', 'lastupdated', 'updated'];
+
+export const parseFrontmatter = (frontmatter: string): Record<string, unknown> => {
+  try {
+    const document = parseDocument(frontmatter);
+    if (document.errors.length > 0) throw document.errors[0];
+
+    const data = document.toJS();
+    if (data === null || data === undefined) return {};
+    if (typeof data !== 'object' || Array.isArray(data)) throw new Error('Frontmatter must be a mapping of keys to values');
+
+    for (const key of Object.keys(data)) {
+      if (!STRING_FIELDS.includes(key.toLowerCase())) continue;
+      const node = document.get(key, true);
+      if (isScalar(node) && node.source !== undefined) data[key] = node.source;
+    }
+
+    return data as Record<string, unknown>;
+  } catch {
+    return parseLenientFrontmatter(frontmatter);
+  }
+};
+
+// Cursor writes unquoted globs such as `globs: **/*.ts`, which YAML rejects as an alias,
+// so fall back to a line-based reader that keeps each value verbatim.
+const parseLenientFrontmatter = (frontmatter: string): Record<string, unknown> => {
+  const data: Record<string, unknown> = {};
+  let currentKey: string | null = null;
+
+  for (const line of frontmatter.split(/\r?\n/)) {
+    const trimmedLine = line.trim();
+    if (!trimmedLine || trimmedLine.startsWith('#')) continue;
+
+    const listItem = trimmedLine.match(/^-\s+(.*)$/);
+    if (listItem && currentKey) {
+      const existing = data[currentKey];
+      data[currentKey] = [...(Array.isArray(existing) ? existing : []), stripQuotes(listItem[1])];
+      continue;
+    }
+
+    const colonIndex = trimmedLine.indexOf(':');
+    if (colonIndex === -1) continue;
+
+    currentKey = trimmedLine.substring(0, colonIndex).trim();
+    const value = stripQuotes(trimmedLine.substring(colonIndex + 1).trim());
+    data[currentKey] = value === '' ? [] : value;
+  }
+
+  return data;
+};
+
+const stripQuotes = (value: string): string => value.replace(/^["']|["']$/g, '');
+
+const findField = (data: Record<string, unknown>, aliases: string[]): unknown => {
+  const key = Object.keys(data).find(k => aliases.includes(k.toLowerCase()));
+  return key === undefined ? undefined : data[key];
+};
+
+const toStringList = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const items = Array.isArray(value) ? value.flatMap(item => toStringList(item) || []) : String(value).split(',');
+  const list = items.map(item => item.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+};
+
+const toBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && /^(true|yes|on)$/i.test(value.trim())) return true;
+  if (typeof value === 'string' && /^(false|no|off)$/i.test(value.trim())) return false;
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+export const normalizeRuleMetadata = (data: Record<string, unknown>): RuleMetadata => {
+  const metadata: RuleMetadata = { ...data };
+  const author = toStringList(findField(data, FIELD_ALIASES.author));
+
+  const normalized: RuleSummaryMetadata = {
+    tags: toStringList(findField(data, FIELD_ALIASES.tags)),
+    globs: toStringList(findField(data, FIELD_ALIASES.globs)),
+    applyTo: toStringList(findField(data, FIELD_ALIASES.applyTo)),
+    alwaysApply: toBoolean(findField(data, FIELD_ALIASES.alwaysApply)),
+    priority: toNumber(findField(data, FIELD_ALIASES.priority)),
+    author: author?.join(', '),
+    dependsOn: toStringList(findField(data, FIELD_ALIASES.dependsOn)),
+    extends: toStringList(findField(data, FIELD_ALIASES.extends))
+  };
+
+  for (const [field, value] of Object.entries(normalized)) {
+    if (value === undefined) delete metadata[field];
+    else metadata[field] = value;
+  }
+
+  return metadata;
+};
+
+const LIST_FIELDS: Array<keyof RuleSummaryMetadata> = ['tags', 'globs', 'applyTo', 'author', 'dependsOn', 'extends'];
+
+export const validateRuleMetadata = (data: Record<string, unknown>): Array<{ key: string; message: string }> => Object.entries(data).flatMap(([key, value]) => {
+  const field = (Object.keys(FIELD_ALIASES) as Array<keyof RuleSummaryMetadata>).find(name => FIELD_ALIASES[name].includes(key.toLowerCase()));
+  const isText = typeof value === 'string' || typeof value === 'number';
+
+  if (field && LIST_FIELDS.includes(field) && !(value === null || isText || (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number')))) {
+    return [{ key, message: `${key} must be a string or a list of strings` }];
+  }
+  if (field === 'alwaysApply' && toBoolean(value) === undefined) return [{ key, message: `${key} must be true or false` }];
+  if (field === 'priority' && toNumber(value) === undefined) return [{ key, message: `${key} must be a number` }];
+  if (['description', ...STRING_FIELDS].includes(key.toLowerCase()) && !isText) return [{ key, message: `${key} must be text` }];
+  return [];
+});
+
+export const pickSummaryMetadata = (metadata?: RuleMetadata): RuleSummaryMetadata => {
+  if (!metadata) return {};
+  const { tags, globs, applyTo, alwaysApply, priority, author, dependsOn, extends: parents } = metadata;
+  return Object.fromEntries(Object.entries({ tags, globs, applyTo, alwaysApply, priority, author, dependsOn, extends: parents }).filter(([, value]) => value !== undefined));
+};
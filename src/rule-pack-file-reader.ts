@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { BaseRuleFileReader, RuleContent, RuleFile } from './rule-source.js';
+import { RulePack, verifyRulePack } from './rule-pack.js';
+import { ErrorHandler } from './error-handler.js';
+
+export class RulePackFileReader extends BaseRuleFileReader {
+  readonly name: string;
+  readonly remote = false;
+  private packPath: string;
+  private pack: RulePack;
+  private rules: Map<string, RuleContent>;
+
+  constructor(packPath?: string) {
+    super();
+    const file = packPath || process.env.RULES_PACK || '';
+    if (!file) throw new Error('RULES_PACK environment variable is required for a rule pack source');
+
+    this.packPath = path.resolve(file);
+    this.name = `pack:${this.packPath}`;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(this.packPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read rule pack ${this.packPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    try {
+      this.pack = verifyRulePack(data);
+    } catch (error) {
+      throw new Error(`${error instanceof Error ? error.message : error} (${this.packPath})`);
+    }
+
+    this.rules = new Map(this.pack.rules.map(entry => [entry.domain, entry.rule]));
+  }
+
+  async readRuleFile(domain: string): Promise<string> {
+    return this.getRule(domain).content;
+  }
+
+  async readRuleFileDetails(domain: string): Promise<RuleFile> {
+    const { content, path: rulePath, sha, commit, stale } = this.getRule(domain);
+    return { content, ...(rulePath && { path: rulePath }), ...(sha && { sha }), ...(commit && { commit }), ...(stale && { stale }) };
+  }
+
+  async listRuleFiles(): Promise<string[]> { return Array.from(this.rules.keys()); }
+
+  async ruleExists(domain: string): Promise<boolean> { return this.rules.has(domain); }
+
+  hasAuthToken(): boolean { return false; }
+
+  getRepositoryInfo(): string {
+    const origins = this.pack.sources.map(source => source.revision ? `${source.name}@${source.revision.slice(0, 12)}` : source.name);
+    return `${this.packPath} (rule pack from ${this.pack.createdAt}${origins.length > 0 ? `: ${origins.join(', ')}` : ''})`;
+  }
+
+  private getRule(domain: string): RuleContent {
+    const rule = this.rules.get(domain);
+    if (!rule) throw ErrorHandler.handleFileSystemError(Object.assign(new Error(`Rule file not found for domain: ${domain}`), { code: 'ENOENT' }), domain);
+    return rule;
+  }
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { RuleContent } from './rule-source.js';
+import { RuleManager } from './rule-manager.js';
+
+export const RULE_PACK_FORMAT = 'agent-rules-pack';
+export const RULE_PACK_VERSION = 2;
+
+export interface RulePackSource {
+  name: string;
+  info: string;
+  revision?: string;
+}
+
+export interface RulePackEntry {
+  domain: string;
+  hash: string;
+  rule: RuleContent;
+}
+
+export interface RulePack {
+  format: typeof RULE_PACK_FORMAT;
+  version: number;
+  createdAt: string;
+  generator: string;
+  sources: RulePackSource[];
+  rules: RulePackEntry[];
+}
+
+export const hashRuleContent = (rule: RuleContent): string => `sha256-${createHash('sha256').update(JSON.stringify(rule)).digest('hex')}`;
+
+export const createRulePack = async (ruleManager: RuleManager, generator: string): Promise<RulePack> => {
+  const rules = await ruleManager.getRuleTemplates();
+  const sources = await Promise.all(ruleManager.getSources().map(async (source) => {
+    const revision = await source.getRevision?.();
+    return { name: source.name, info: source.getRepositoryInfo(), ...(revision && { revision }) };
+  }));
+
+  return {
+    format: RULE_PACK_FORMAT,
+    version: RULE_PACK_VERSION,
+    createdAt: new Date().toISOString(),
+    generator,
+    sources,
+    rules: rules.map(rule => ({ domain: rule.domain, hash: hashRuleContent(rule), rule }))
+  };
+};
+
+export const verifyRulePack = (data: unknown): RulePack => {
+  const pack = data as RulePack;
+  if (!pack || typeof pack !== 'object' || pack.format !== RULE_PACK_FORMAT) throw new Error(`Not a rule pack: expected format "${RULE_PACK_FORMAT}"`);
+  if (pack.version !== RULE_PACK_VERSION) throw new Error(`Unsupported rule pack version ${pack.version}: this server reads version ${RULE_PACK_VERSION}, run snapshot again`);
+  if (!Array.isArray(pack.rules)) throw new Error('Invalid rule pack: missing rules array');
+
+  const mismatched = pack.rules.filter(entry => !entry?.rule || entry.rule.domain !== entry.domain || typeof entry.rule.content !== 'string' || hashRuleContent(entry.rule) !== entry.hash);
+  if (mismatched.length > 0) throw new Error(`Rule pack failed verification: content hash mismatch for ${mismatched.map(entry => entry?.domain ?? '(unknown)').join(', ')}`);
+
+  return pack;
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RuleSearchIndex, tokenize } from './rule-search-index.js';
+import { RuleContent } from './rule-source.js';
+
+describe('RuleSearchIndex', () => {
+    const rules: RuleContent[] = [
+        {
+            domain: 'security',
+            source: 'org',
+            description: 'Security rules',
+            metadata: { tags: ['backend'] },
+            content: '# Security\n\n## SQL Injection\nAlways use parameterized queries to prevent SQL injection.\n\n## XSS\nEscape user input before rendering HTML.'
+        },
+        {
+            domain: 'fastapi',
+            source: 'team',
+            description: 'FastAPI rules',
+            metadata: { tags: ['python', 'backend'] },
+            content: '# FastAPI\n\n## Database\nUse SQLAlchemy sessions. Never build SQL strings by hand.'
+        },
+        {
+            domain: 'react',
+            source: 'team',
+            content: '# React\n\n## Hooks\nClean up effects.\n\n```md\n# not a heading\n```'
+        }
+    ];
+
+    const createIndex = () => {
+        const index = new RuleSearchIndex();
+        index.build(rules);
+        return index;
+    };
+
+    it('should tokenize and drop stop words', () => {
+        expect(tokenize('The SQL injection, in Node.js!')).toEqual(['sql', 'injection', 'node.js']);
+    });
+
+    it('should rank the section that best matches the query first', () => {
+        const hits = createIndex().search('sql injection');
+
+        expect(hits[0]).toMatchObject({ domain: 'security', heading: 'SQL Injection', source: 'org' });
+        expect(hits[0].snippet).toContain('parameterized queries');
+        expect(hits.map(h => h.domain)).toContain('fastapi');
+    });
+
+    it('should filter by tag and source', () => {
+        expect(createIndex().search('sql', { tags: ['python'] }).map(h => h.domain)).toEqual(['fastapi']);
+        expect(createIndex().search('sql', { source: 'org' }).map(h => h.domain)).toEqual(['security']);
+    });
+
+    it('should ignore headings inside code blocks and honor the limit', () => {
+        const index = createIndex();
+
+        expect(index.search('heading')[0]).toMatchObject({ domain: 'react', heading: 'Hooks' });
+        expect(index.search('sql', { limit: 1 })).toHaveLength(1);
+        expect(index.search('nonexistent')).toEqual([]);
+    });
+});
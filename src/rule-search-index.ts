@@ -0,0 +1,118 @@
+import { RuleContent } from './rule-source.js';
+import { parseHeadings } from './markdown-outline.js';
+
+export interface SearchOptions {
+  tags?: string[];
+  source?: string;
+  limit?: number;
+}
+
+export interface SearchHit {
+  domain: string;
+  heading: string;
+  snippet: string;
+  score: number;
+  source?: string;
+}
+
+interface IndexedSection {
+  domain: string;
+  heading: string;
+  text: string;
+  source?: string;
+  tags: string[];
+  length: number;
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'with']);
+const SNIPPET_RADIUS = 80;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9][a-z0-9_+#.-]*[a-z0-9+#]|[a-z0-9]/g) || []).filter(term => !STOP_WORDS.has(term));
+
+export class RuleSearchIndex {
+  private sections: IndexedSection[] = [];
+  private postings: Map<string, Map<number, number>> = new Map();
+  private averageLength = 0;
+
+  build(rules: RuleContent[]): void {
+    this.sections = [];
+    this.postings = new Map();
+
+    for (const rule of rules) {
+      for (const { heading, text } of this.splitSections(rule)) {
+        const terms = tokenize(`${heading}\n${text}`);
+        const sectionIndex = this.sections.push({ domain: rule.domain, heading, text, source: rule.source, tags: rule.metadata?.tags || [], length: terms.length }) - 1;
+
+        for (const term of terms) {
+          const termPostings = this.postings.get(term) || new Map<number, number>();
+          termPostings.set(sectionIndex, (termPostings.get(sectionIndex) || 0) + 1);
+          this.postings.set(term, termPostings);
+        }
+      }
+    }
+
+    this.averageLength = this.sections.reduce((total, section) => total + section.length, 0) / (this.sections.length || 1);
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scores = new Map<number, number>();
+    const tags = options.tags?.map(tag => tag.toLowerCase());
+
+    for (const term of queryTerms) {
+      const termPostings = this.postings.get(term);
+      if (!termPostings) continue;
+
+      const idf = Math.log(1 + (this.sections.length - termPostings.size + 0.5) / (termPostings.size + 0.5));
+      for (const [sectionIndex, frequency] of termPostings) {
+        const section = this.sections[sectionIndex];
+        if (options.source && section.source !== options.source) continue;
+        if (tags?.length && !section.tags.some(tag => tags.includes(tag.toLowerCase()))) continue;
+
+        const normalizedFrequency = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * section.length / (this.averageLength || 1)));
+        scores.set(sectionIndex, (scores.get(sectionIndex) || 0) + idf * normalizedFrequency);
+      }
+    }
+
+    const phrase = query.trim().toLowerCase();
+    return Array.from(scores.entries())
+      .map(([sectionIndex, score]) => {
+        const section = this.sections[sectionIndex];
+        const phraseBonus = queryTerms.length > 1 && `${section.heading}\n${section.text}`.toLowerCase().includes(phrase) ? 1.5 : 1;
+        return { sectionIndex, score: score * phraseBonus };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 10)
+      .map(({ sectionIndex, score }) => {
+        const section = this.sections[sectionIndex];
+        return { domain: section.domain, heading: section.heading, snippet: this.createSnippet(section.text, queryTerms), score: Math.round(score * 1000) / 1000, source: section.source };
+      });
+  }
+
+  get size(): number { return this.sections.length; }
+
+  private splitSections(rule: RuleContent): Array<{ heading: string; text: string }> {
+    const lines = rule.content.split(/\r?\n/);
+    const headings = parseHeadings(rule.content);
+    const preamble = lines.slice(0, headings[0]?.line ?? lines.length).join('\n').trim();
+
+    const sections = headings.map((heading, index) => ({
+      heading: heading.title,
+      text: lines.slice(heading.line + 1, headings[index + 1]?.line ?? lines.length).join('\n').trim()
+    }));
+
+    return preamble || sections.length === 0 ? [{ heading: rule.description || rule.domain, text: preamble }, ...sections] : sections;
+  }
+
+  private createSnippet(text: string, queryTerms: string[]): string {
+    const lowerText = text.toLowerCase();
+    const position = queryTerms.map(term => lowerText.indexOf(term)).filter(index => index !== -1).sort((a, b) => a - b)[0] ?? 0;
+    const start = Math.max(0, position - SNIPPET_RADIUS);
+    const end = Math.min(text.length, position + SNIPPET_RADIUS);
+
+    return `${start > 0 ? '...' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '...' : ''}`;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { isValidGlob, matchesGlob, selectRulesForFiles } from './rule-selector.js';
+import { RuleContent } from './rule-source.js';
+
+describe('rule selector', () => {
+    describe('matchesGlob', () => {
+        it('should match recursive and single-segment wildcards', () => {
+            expect(matchesGlob('src/components/Button.tsx', '**/*.tsx')).toBe(true);
+            expect(matchesGlob('Button.tsx', '**/*.tsx')).toBe(true);
+            expect(matchesGlob('src/components/Button.tsx', 'src/*.tsx')).toBe(false);
+            expect(matchesGlob('src/index.ts', 'src/*.ts')).toBe(true);
+        });
+
+        it('should match basename-only patterns in any folder', () => {
+            expect(matchesGlob('app/api/users.py', '*.py')).toBe(true);
+            expect(matchesGlob('app/api/users.ts', '*.py')).toBe(false);
+        });
+
+        it('should support braces, character classes and directory patterns', () => {
+            expect(matchesGlob('lib/util.js', '{src,lib}/**/*.{js,ts}')).toBe(true);
+            expect(matchesGlob('docs/util.js', '{src,lib}/**/*.{js,ts}')).toBe(false);
+            expect(matchesGlob('v1.md', 'v[0-9].md')).toBe(true);
+            expect(matchesGlob('tests/unit/a.test.ts', 'tests/')).toBe(true);
+        });
+
+        it('should treat malformed bracket globs as non-matching', () => {
+            expect(matchesGlob('src/a.ts', 'src/[z-a].ts')).toBe(false);
+            expect(matchesGlob('src/a.ts', 'src/*.ts')).toBe(true);
+            expect(isValidGlob('src/[z-a].ts')).toBe(false);
+            expect(isValidGlob('v[0-9].md')).toBe(true);
+        });
+
+        it('should normalize Windows and relative paths', () => {
+            expect(matchesGlob('.\\src\\app\\page.tsx', 'src/app/**')).toBe(true);
+            expect(matchesGlob('./src/app/page.tsx', 'src/app/*.tsx')).toBe(true);
+        });
+    });
+
+    describe('selectRulesForFiles', () => {
+        const rules: RuleContent[] = [
+            { domain: 'react', content: 'React', metadata: { globs: ['**/*.tsx', '**/*.jsx'] } },
+            { domain: 'python', content: 'Python', metadata: { applyTo: ['**/*.py'] } },
+            { domain: 'clean-code', content: 'Clean', metadata: { alwaysApply: true } },
+            { domain: 'security', content: 'Security' }
+        ];
+
+        it('should select rules whose globs or applyTo match and rules marked alwaysApply', () => {
+            const matches = selectRulesForFiles(rules, ['src/App.tsx', 'README.md']);
+
+            expect(matches.map(m => m.rule.domain)).toEqual(['react', 'clean-code']);
+            expect(matches[0].matchedFiles).toEqual(['src/App.tsx']);
+            expect(matches[0].matchedPatterns).toEqual(['**/*.tsx']);
+            expect(matches[1].alwaysApply).toBe(true);
+        });
+
+        it('should ignore rules without patterns', () => {
+            const matches = selectRulesForFiles(rules, ['api/main.py']);
+
+            expect(matches.map(m => m.rule.domain)).toEqual(['python', 'clean-code']);
+        });
+    });
+});
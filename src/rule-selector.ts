@@ -0,0 +1,100 @@
+import { RuleContent } from './rule-source.js';
+import { Logger } from './error-handler.js';
+
+export interface FileRuleMatch {
+  rule: RuleContent;
+  alwaysApply: boolean;
+  matchedFiles: string[];
+  matchedPatterns: string[];
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.+^$()|\\{}[\]]/g, '\\$&');
+
+const globToRegExpSource = (pattern: string): string => {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] !== '*') {
+        source += '[^/]*';
+      } else if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(globToRegExpSource).join('|')})`;
+      i = end;
+    } else if (char === '[' && pattern.indexOf(']', i) !== -1) {
+      const end = pattern.indexOf(']', i);
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+};
+
+export const globToRegExp = (pattern: string): RegExp => new RegExp(`^${globToRegExpSource(pattern)}$`);
+
+export const isValidGlob = (pattern: string): boolean => {
+  try {
+    globToRegExp(normalizeFilePath(pattern));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const invalidPatterns = new Set<string>();
+
+const compileGlob = (pattern: string): RegExp | null => {
+  try {
+    return globToRegExp(pattern);
+  } catch (error) {
+    if (!invalidPatterns.has(pattern)) {
+      invalidPatterns.add(pattern);
+      Logger.warn(`Ignoring invalid glob pattern: ${pattern}`, { error: error instanceof Error ? error.message : error });
+    }
+    return null;
+  }
+};
+
+export const normalizeFilePath = (filePath: string): string => filePath.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+/, '');
+
+export const matchesGlob = (filePath: string, pattern: string): boolean => {
+  const normalizedPath = normalizeFilePath(filePath);
+  const normalizedPattern = normalizeFilePath(pattern).replace(/\/$/, '/**');
+  if (!normalizedPattern) return false;
+
+  const regExp = compileGlob(normalizedPattern);
+  if (!regExp) return false;
+  if (regExp.test(normalizedPath)) return true;
+
+  // Patterns without a directory part (e.g. `*.tsx`) apply to files in any folder, as in Cursor and .gitignore
+  return !normalizedPattern.includes('/') && regExp.test(normalizedPath.split('/').pop() || '');
+};
+
+export const selectRulesForFiles = (rules: RuleContent[], filePaths: string[]): FileRuleMatch[] => {
+  const matches: FileRuleMatch[] = [];
+
+  for (const rule of rules) {
+    const patterns = [...(rule.metadata?.globs || []), ...(rule.metadata?.applyTo || [])];
+    const alwaysApply = rule.metadata?.alwaysApply === true;
+    const matchedPatterns = patterns.filter(pattern => filePaths.some(filePath => matchesGlob(filePath, pattern)));
+    const matchedFiles = filePaths.filter(filePath => matchedPatterns.some(pattern => matchesGlob(filePath, pattern)));
+
+    if (alwaysApply || matchedFiles.length > 0) matches.push({ rule, alwaysApply, matchedFiles, matchedPatterns });
+  }
+
+  return matches;
+};
@@ -0,0 +1,132 @@
+import { RuleFileOptions, RuleSource } from './rule-source.js';
+import { GitHubRepositoryFileReader } from './github-repository-file-reader.js';
+import { GitLabRepositoryFileReader } from './gitlab-repository-file-reader.js';
+import { BitbucketRepositoryFileReader } from './bitbucket-repository-file-reader.js';
+import { GitRepositoryFileReader } from './git-repository-file-reader.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+import { RulePackFileReader } from './rule-pack-file-reader.js';
+import { DiskCache } from './disk-cache.js';
+import { Logger } from './error-handler.js';
+import type { RulesConfig, SourceConfig } from './rule-config.js';
+
+export interface RuleSourceOptions {
+  rulesDirectory?: string;
+  sources?: string[];
+  pack?: string;
+  config?: RulesConfig;
+}
+
+export interface ReaderDefaults extends RuleFileOptions {
+  diskCache?: DiskCache | null;
+  cacheDirectory?: string;
+  fileCacheTtl?: number;
+  directoryCacheTtl?: number;
+}
+
+const SOURCE_SPECS = 'local:<path>, pack:<file>, github:<owner>/<repo>[/<path>][@<ref>], gitlab:[<url>/]<group>/<project>[/-/<path>][@<ref>], bitbucket:<workspace>/<repo>[/<path>][@<ref>] or git:<url>[#<ref>[:<path>]]';
+
+const splitRef = (target: string): [string, string] => {
+  const refIndex = target.lastIndexOf('@');
+  return refIndex === -1 ? [target, ''] : [target.slice(0, refIndex), target.slice(refIndex + 1)];
+};
+
+export const parseRuleSourceSpec = (spec: string, defaults: ReaderDefaults = {}): RuleSource => {
+  const separatorIndex = spec.indexOf(':');
+  const kind = separatorIndex === -1 ? '' : spec.slice(0, separatorIndex).trim().toLowerCase();
+  const target = spec.slice(separatorIndex + 1).trim();
+
+  switch (kind) {
+    case 'local':
+      return new LocalDirectoryFileReader(target, defaults);
+
+    case 'pack':
+      return new RulePackFileReader(target);
+
+    case 'github': {
+      const [location, ref] = target.split('@');
+      const [owner, repo, ...pathParts] = location.split('/').filter(Boolean);
+      if (!owner || !repo) throw new Error(`Invalid GitHub rule source "${spec}": expected github:<owner>/<repo>[/<path>][@<ref>]`);
+      return new GitHubRepositoryFileReader(owner, repo, pathParts.join('/'), ref, defaults);
+    }
+
+    case 'gitlab': {
+      const [location, ref] = splitRef(target);
+      const [, baseUrl, projectLocation] = location.match(/^(https?:\/\/[^/]+)\/(.*)$/) ?? [undefined, undefined, location];
+      const [project, rulesPath] = projectLocation.includes('/-/') ? projectLocation.split('/-/') : [projectLocation.split('/').slice(0, 2).join('/'), projectLocation.split('/').slice(2).join('/')];
+      if (project.split('/').filter(Boolean).length < 2) throw new Error(`Invalid GitLab rule source "${spec}": expected gitlab:[<url>/]<group>/<project>[/-/<path>][@<ref>]`);
+      return new GitLabRepositoryFileReader(project, rulesPath, ref, { ...defaults, ...(baseUrl && { baseUrl }) });
+    }
+
+    case 'bitbucket': {
+      const [location, ref] = splitRef(target);
+      const [workspace, repo, ...pathParts] = location.split('/').filter(Boolean);
+      if (!workspace || !repo) throw new Error(`Invalid Bitbucket rule source "${spec}": expected bitbucket:<workspace>/<repo>[/<path>][@<ref>]`);
+      return new BitbucketRepositoryFileReader(workspace, repo, pathParts.join('/'), ref, defaults);
+    }
+
+    case 'git': {
+      const hashIndex = target.lastIndexOf('#');
+      const url = hashIndex === -1 ? target : target.slice(0, hashIndex);
+      const [ref = '', ...pathParts] = hashIndex === -1 ? [] : target.slice(hashIndex + 1).split(':');
+      if (!url) throw new Error(`Invalid git rule source "${spec}": expected git:<url>[#<ref>[:<path>]]`);
+      return new GitRepositoryFileReader(url, ref, pathParts.join(':'), defaults);
+    }
+
+    default:
+      throw new Error(`Unknown rule source "${spec}": expected ${SOURCE_SPECS}`);
+  }
+};
+
+export const splitRuleSourceSpecs = (value: string): string[] => value.split(/[,\n]/).map(spec => spec.trim()).filter(Boolean);
+
+const toMilliseconds = (seconds?: number): number | undefined => seconds === undefined ? undefined : seconds * 1000;
+
+export const getReaderDefaults = (config: RulesConfig = {}): ReaderDefaults => ({
+  ...(config.extensions && { extensions: config.extensions }),
+  ...(config.skip && { skip: config.skip }),
+  ...(config.cache?.disk === false ? { diskCache: null } : config.cache?.directory && { diskCache: new DiskCache(config.cache.directory), cacheDirectory: config.cache.directory }),
+  ...(config.cache?.ttl !== undefined && { fileCacheTtl: toMilliseconds(config.cache.ttl) }),
+  ...(config.cache?.directoryTtl !== undefined && { directoryCacheTtl: toMilliseconds(config.cache.directoryTtl) })
+});
+
+export const createConfiguredSource = (source: string | SourceConfig, defaults: ReaderDefaults = {}): RuleSource => {
+  if (typeof source === 'string') return parseRuleSourceSpec(source, defaults);
+
+  const token = source.tokenEnv ? process.env[source.tokenEnv] || undefined : undefined;
+  if (source.tokenEnv && !token) Logger.warn(`${source.tokenEnv} is not set, so the ${source.type} source ${source.repository} falls back to its default credentials`, { tokenEnv: source.tokenEnv });
+
+  const options = {
+    ...defaults,
+    ...(source.extensions && { extensions: source.extensions }),
+    ...(source.skip && { skip: source.skip }),
+    ...(source.cacheTtl !== undefined && { fileCacheTtl: toMilliseconds(source.cacheTtl) }),
+    ...(source.directoryCacheTtl !== undefined && { directoryCacheTtl: toMilliseconds(source.directoryCacheTtl) }),
+    ...(token && { token })
+  };
+  const [owner, repo] = source.repository?.split('/').filter(Boolean) ?? [];
+
+  switch (source.type) {
+    case 'github': return new GitHubRepositoryFileReader(owner, repo, source.path, source.ref, { ...options, ...(source.apiUrl && { apiUrl: source.apiUrl }) });
+    case 'gitlab': return new GitLabRepositoryFileReader(source.repository!, source.path, source.ref, { ...options, ...(source.url && { baseUrl: source.url }) });
+    case 'bitbucket': return new BitbucketRepositoryFileReader(owner, repo, source.path, source.ref, { ...options, ...(source.apiUrl && { apiUrl: source.apiUrl }), ...(source.url && { webUrl: source.url }) });
+    case 'git': return new GitRepositoryFileReader(source.url!, source.ref, source.path, options);
+    case 'local': return new LocalDirectoryFileReader(source.path, options);
+    case 'pack': return new RulePackFileReader(source.path);
+  }
+};
+
+export const createRuleSources = (options: RuleSourceOptions = {}): RuleSource[] => {
+  const pack = options.pack || process.env.RULES_PACK;
+  if (pack) return [new RulePackFileReader(pack)];
+
+  const defaults = getReaderDefaults(options.config);
+  if (options.sources?.length) return options.sources.map(spec => parseRuleSourceSpec(spec, defaults));
+  if (options.rulesDirectory) return [new LocalDirectoryFileReader(options.rulesDirectory, defaults)];
+  if (options.config?.sources?.length) return options.config.sources.map(source => createConfiguredSource(source, defaults));
+
+  const specs = splitRuleSourceSpecs(process.env.RULE_SOURCES || '');
+  if (specs.length > 0) return specs.map(spec => parseRuleSourceSpec(spec, defaults));
+
+  const rulesDirectory = process.env.RULES_DIRECTORY;
+  return [rulesDirectory ? new LocalDirectoryFileReader(rulesDirectory, defaults) : new GitHubRepositoryFileReader(undefined, undefined, undefined, undefined, defaults)];
+};
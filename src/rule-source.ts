@@ -0,0 +1,288 @@
+import { RuleMetadata, RuleSummaryMetadata, parseFrontmatter, normalizeRuleMetadata } from './rule-metadata.js';
+
+export interface RuleContent {
+  domain: string;
+  content: string;
+  description?: string;
+  lastUpdated?: string;
+  version?: string;
+  source?: string;
+  path?: string;
+  sha?: string;
+  commit?: string;
+  stale?: boolean;
+  metadata?: RuleMetadata;
+  provenance?: RuleProvenance[];
+  compositionErrors?: string[];
+  unresolvedVariables?: string[];
+}
+
+export interface RuleProvenance {
+  domain: string;
+  via: 'extends' | 'include';
+  source?: string;
+  commit?: string;
+  section?: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface RuleFile {
+  content: string;
+  path?: string;
+  sha?: string;
+  commit?: string;
+  stale?: boolean;
+}
+
+export interface RuleFileEntry {
+  domain: string;
+  path: string;
+  size?: number;
+}
+
+export interface DomainInfo extends RuleSummaryMetadata {
+  domain: string;
+  description: string;
+  lastUpdated?: string;
+  source?: string;
+  shadows?: string[];
+  commit?: string;
+  stale?: boolean;
+}
+
+export interface RuleCommit {
+  sha: string;
+  message: string;
+  date?: string;
+  author?: string;
+  url?: string;
+}
+
+export interface RuleRevision {
+  ref: string;
+  commit: string;
+  date?: string;
+  content: string | null;
+}
+
+export interface RuleHistory {
+  path?: string;
+  from: RuleRevision;
+  to: RuleRevision;
+  commits: RuleCommit[];
+}
+
+export interface RuleHistoryOptions {
+  from?: string;
+  to?: string;
+  sinceLastFetch?: boolean;
+}
+
+export interface RateLimitStatus {
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+  pausedUntil?: string;
+}
+
+export interface UpstreamError {
+  time: string;
+  source?: string;
+  domain?: string;
+  message: string;
+}
+
+export interface SourceStatus {
+  name: string;
+  remote: boolean;
+  auth: 'token' | 'basic' | 'anonymous' | 'none';
+  info: string;
+  ref?: string;
+  resolvedRef?: string;
+  commit?: string;
+  stale?: boolean;
+  rateLimit?: RateLimitStatus;
+  lastError?: UpstreamError;
+}
+
+export interface RuleSource {
+  readonly name: string;
+  readonly remote: boolean;
+  readRuleFile(domain: string): Promise<string>;
+  readRuleFileDetails(domain: string): Promise<RuleFile>;
+  listRuleFiles(): Promise<string[]>;
+  ruleExists(domain: string): Promise<boolean>;
+  parseRuleContent(content: string, domain: string): RuleContent;
+  hasAuthToken(): boolean;
+  getRepositoryInfo(): string;
+  getRevision?(): Promise<string | undefined>;
+  withRef?(ref: string): RuleSource;
+  getRuleHistory?(domain: string, options: RuleHistoryOptions): Promise<RuleHistory>;
+  listRuleFileEntries?(): Promise<RuleFileEntry[]>;
+  getStatus?(): Partial<SourceStatus>;
+  invalidate?(): void;
+  pollRevision?(): Promise<string | undefined>;
+  watch?(listener: (domains: string[]) => void): () => void;
+  dispose?(): Promise<void>;
+}
+
+export interface RuleFileOptions {
+  extensions?: string[];
+  skip?: string[];
+}
+
+export const RULE_EXTENSIONS = ['.chatmode.md', '.prompt.md', '.instructions.md', '.md', '.mdc'];
+export const SKIP_FILES = ['README.md', 'CONTRIBUTING.md', 'CODE_OF_CONDUCT.md', 'SECURITY.md', 'SUPPORT.md', 'LICENSE.md'];
+
+export const isValidDomainName = (domain: string): boolean =>
+  /^[a-zA-Z0-9._-]+(\/[a-zA-Z0-9._-]+)*$/.test(domain) && !domain.split('/').some(segment => segment === '.' || segment === '..');
+
+export abstract class BaseRuleFileReader implements RuleSource {
+  abstract readonly name: string;
+  abstract readonly remote: boolean;
+  abstract readRuleFile(domain: string): Promise<string>;
+  abstract listRuleFiles(): Promise<string[]>;
+  abstract ruleExists(domain: string): Promise<boolean>;
+  abstract hasAuthToken(): boolean;
+  abstract getRepositoryInfo(): string;
+  protected readonly extensions: string[];
+  protected readonly skipFiles: string[];
+
+  constructor(fileOptions: RuleFileOptions = {}) {
+    this.extensions = fileOptions.extensions?.length ? fileOptions.extensions : RULE_EXTENSIONS;
+    this.skipFiles = fileOptions.skip ?? SKIP_FILES;
+  }
+
+  async readRuleFileDetails(domain: string): Promise<RuleFile> {
+    return { content: await this.readRuleFile(domain) };
+  }
+
+  protected extractDomainsFromDirectoryData(data: Array<{ type: string; name: string }>): string[] {
+    const seenDomains = new Set<string>();
+    const validDomains: string[] = [];
+
+    for (const item of data) {
+      if (item.type !== 'file' || !this.isRuleFile(item.name)) continue;
+
+      const domain = this.extractDomainFromFilename(item.name);
+      if (seenDomains.has(domain) || !this.isValidDomain(domain)) continue;
+
+      validDomains.push(domain);
+      seenDomains.add(domain);
+    }
+
+    return validDomains;
+  }
+
+  protected indexRuleFiles<T extends { path: string; size?: number }>(tree: T[], root: string): { files: Map<string, T>; entries: RuleFileEntry[] } {
+    const files = new Map<string, T>();
+    const entries: RuleFileEntry[] = [];
+
+    for (const file of tree) {
+      if (root && !file.path.startsWith(`${root}/`)) continue;
+
+      const segments = (root ? file.path.slice(root.length + 1) : file.path).split('/');
+      const filename = segments.pop()!;
+      if (!this.isRuleFile(filename)) continue;
+
+      const domain = [...segments, this.extractDomainFromFilename(filename)].join('/');
+      entries.push({ domain, path: file.path, ...(file.size !== undefined && { size: file.size }) });
+      if (!files.has(domain) && this.isValidDomain(domain)) files.set(domain, file);
+    }
+
+    return { files, entries };
+  }
+
+  protected isRuleFile(filename: string): boolean {
+    if (this.skipFiles.includes(filename)) return false;
+
+    const extension = this.getRuleExtension(filename);
+    return !!extension && !(extension === '.md' && filename.startsWith('README'));
+  }
+
+  private getRuleExtension(filename: string): string | undefined {
+    return this.extensions.filter(ext => filename.endsWith(ext) && filename.length > ext.length).sort((a, b) => b.length - a.length)[0];
+  }
+
+  parseRuleContent(content: string, domain: string): RuleContent {
+    try {
+      const ruleContent: RuleContent = { domain, content: content.trim() };
+
+      const frontmatterMatch = content.match(/^---\s*\r?\n([\s\S]*?)\r?\n---\s*\r?\n([\s\S]*)$/);
+      if (frontmatterMatch) {
+        const [, frontmatter, mainContent] = frontmatterMatch;
+        this.parseFrontmatter(frontmatter, ruleContent);
+        ruleContent.content = mainContent.trim();
+      } else {
+        this.parseInlineMetadata(content, ruleContent);
+      }
+
+      if (!ruleContent.description) ruleContent.description = this.generateDescriptionFromContent(content, domain);
+
+      return ruleContent;
+    } catch (error) {
+      console.error(`Error parsing markdown for domain ${domain}:`, error instanceof Error ? error.message : error);
+      return { domain, content: content.trim(), description: this.generateDescriptionFromContent(content, domain) };
+    }
+  }
+
+  private parseFrontmatter(frontmatter: string, ruleContent: RuleContent): void {
+    const metadata = normalizeRuleMetadata(parseFrontmatter(frontmatter));
+
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value === null || typeof value === 'object') continue;
+
+      switch (key.toLowerCase()) {
+        case 'description': ruleContent.description = String(value); break;
+        case 'last_updated': case 'lastupdated': case 'updated': ruleContent.lastUpdated = String(value); break;
+        case 'version': ruleContent.version = String(value); break;
+      }
+    }
+
+    ruleContent.metadata = metadata;
+  }
+
+  private parseInlineMetadata(content: string, ruleContent: RuleContent): void {
+    const descriptionMatch = content.match(/(?:^|\r?\n)\s*-\s*Description:\s*(.+?)(?:\r?\n|$)/i);
+    if (descriptionMatch) ruleContent.description = descriptionMatch[1].trim();
+
+    const lastUpdatedMatch = content.match(/(?:^|\r?\n)\s*-\s*Last Updated:\s*(.+?)(?:\r?\n|$)/i);
+    if (lastUpdatedMatch) ruleContent.lastUpdated = lastUpdatedMatch[1].trim();
+
+    const versionMatch = content.match(/(?:^|\r?\n)\s*-\s*Version:\s*(.+?)(?:\r?\n|$)/i);
+    if (versionMatch) ruleContent.version = versionMatch[1].trim();
+  }
+
+  extractDomainFromFilename(filename: string): string {
+    const extension = this.getRuleExtension(filename);
+    return extension ? filename.slice(0, -extension.length) : filename;
+  }
+
+  isValidDomain(domain: string): boolean {
+    return isValidDomainName(domain);
+  }
+
+  private generateDescriptionFromContent(content: string, domain: string): string {
+    try {
+      const headingMatch = content.match(/^#\s+(.+?)(?:\r?\n|$)/m);
+      if (headingMatch) {
+        const title = headingMatch[1].trim();
+        if (title.toLowerCase() !== domain.toLowerCase()) return title;
+      }
+
+      const paragraphMatch = content.match(/(?:^|\r?\n)(?!#)([^\r\n]+(?:\r?\n(?!#)[^\r\n]+)*)/m);
+      if (paragraphMatch) {
+        const paragraph = paragraphMatch[1].trim();
+        const firstSentence = paragraph.split(/[.!?]/)[0];
+        if (firstSentence && firstSentence.length > 10) {
+          return firstSentence.trim() + (firstSentence.length < paragraph.length ? '...' : '');
+        }
+      }
+
+      return `Development rules and guidelines for ${domain.replace(/[-_]/g, ' ')}`;
+    } catch (error) {
+      return `Rules for ${domain}`;
+    }
+  }
+}
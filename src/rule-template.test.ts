@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadEnvVariables, renderTemplate } from './rule-template.js';
+import { loadProjectVariables } from './rule-config.js';
+
+describe('rule templates', () => {
+    it('should fill placeholders and defaults and report unresolved variables', () => {
+        const result = renderTemplate('Use Node {{ nodeVersion }} with {{testRunner | "vitest"}}. Deploy to {{region}}.', { nodeVersion: 22 });
+
+        expect(result).toEqual({ content: 'Use Node 22 with vitest. Deploy to .', unresolved: ['region'] });
+    });
+
+    it('should render conditional blocks and drop their standalone lines', () => {
+        const template = '# Setup\n{{#if packageManager == "pnpm"}}\nRun pnpm install.\n{{else}}\nRun npm ci.\n{{/if}}\n{{#unless strict}}\nLoose mode.\n{{/unless}}\nDone {{#if !ci}}locally{{/if}}.';
+
+        expect(renderTemplate(template, { packageManager: 'pnpm', strict: true }).content).toBe('# Setup\nRun pnpm install.\nDone locally.');
+        expect(renderTemplate(template, { strict: 'false', ci: true }).content).toBe('# Setup\nRun npm ci.\nLoose mode.\nDone .');
+    });
+
+    it('should only replace known variables inside code', () => {
+        const template = 'Use `{{nodeVersion}}` and `{{ missing }}`.\n```yaml\nnode: {{nodeVersion}}\ntoken: ${{ secrets.TOKEN }}\nmsg: {{ message }}\n{{#if user}}\n```';
+
+        expect(renderTemplate(template, { nodeVersion: '22' })).toEqual({
+            content: 'Use `22` and `{{ missing }}`.\n```yaml\nnode: 22\ntoken: ${{ secrets.TOKEN }}\nmsg: {{ message }}\n{{#if user}}\n```',
+            unresolved: []
+        });
+    });
+
+    it('should ignore variables in inactive branches', () => {
+        expect(renderTemplate('{{#if docker}}Image {{image}}{{/if}}', {})).toEqual({ content: '', unresolved: [] });
+    });
+
+    describe('variable sources', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-template-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(directory, { recursive: true, force: true });
+        });
+
+        it('should read variables from the project config file', async () => {
+            expect(loadProjectVariables(directory)).toEqual({});
+
+            await fs.writeFile(path.join(directory, 'agent-rules.config.yaml'), 'variables:\n  nodeVersion: 22\n  strict: true\n');
+            expect(loadProjectVariables(directory)).toEqual({ nodeVersion: 22, strict: true });
+
+            await fs.writeFile(path.join(directory, 'agent-rules.config.json'), '{"variables": {"nested": {"a": 1}}}');
+            expect(() => loadProjectVariables(directory)).toThrow('must be strings, numbers or booleans: nested');
+        });
+
+        it('should read RULES_VAR_ environment variables', () => {
+            expect(loadEnvVariables({ RULES_VAR_nodeVersion: '20', RULES_VAR_: 'x', OTHER: 'y' })).toEqual({ nodeVersion: '20' });
+        });
+    });
+});
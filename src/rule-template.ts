@@ -0,0 +1,112 @@
+export type TemplateValue = string | number | boolean;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface RenderedTemplate {
+  content: string;
+  unresolved: string[];
+}
+
+export const TEMPLATE_ENV_PREFIX = 'RULES_VAR_';
+
+const TAG_PATTERN = /\$?\{\{\s*([^{}]*?)\s*\}\}/g;
+const VARIABLE_PATTERN = /^([A-Za-z_][\w-]*)(?:\s*\|\s*(.*))?$/;
+const CONDITION_PATTERN = /^(!?)([A-Za-z_][\w-]*)(?:\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?$/;
+
+const isTruthy = (value: TemplateValue | undefined): boolean =>
+  value !== undefined && value !== false && value !== 0 && !/^(|false|no|off|0)$/i.test(String(value).trim());
+
+const evaluateCondition = (expression: string, variables: TemplateVariables): boolean | undefined => {
+  const match = expression.match(CONDITION_PATTERN);
+  if (!match) return undefined;
+
+  const [, negate, name, operator, doubleQuoted, singleQuoted, bare] = match;
+  const value = variables[name];
+  const result = operator ? (value !== undefined && String(value) === (doubleQuoted ?? singleQuoted ?? bare)) === (operator === '==') : isTruthy(value);
+  return negate ? !result : result;
+};
+
+export const isTemplateValue = (value: unknown): value is TemplateValue =>
+  typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+
+// Placeholders inside code are only replaced when the variable is known, so examples
+// in other template languages (Vue, Handlebars, GitHub Actions) pass through untouched.
+const findCodeRanges = (content: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let fence: { marker: string; start: number } | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch && !fence) fence = { marker: fenceMatch[1], start: offset };
+    else if (fenceMatch && fence?.marker === fenceMatch[1]) {
+      ranges.push([fence.start, offset + line.length]);
+      fence = null;
+    } else if (!fence) {
+      for (const span of line.matchAll(/`[^`]+`/g)) ranges.push([offset + span.index!, offset + span.index! + span[0].length]);
+    }
+    offset += line.length + 1;
+  }
+
+  if (fence) ranges.push([fence.start, content.length]);
+  return ranges;
+};
+
+export const renderTemplate = (content: string, variables: TemplateVariables): RenderedTemplate => {
+  const unresolved = new Set<string>();
+  const codeRanges = findCodeRanges(content);
+  const blocks: Array<{ type: 'if' | 'unless'; condition: boolean; inElse: boolean }> = [];
+  const isActive = () => blocks.every(block => block.inElse ? !block.condition : block.condition);
+  let output = '';
+  let position = 0;
+
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const [tag, inner] = match;
+    const index = match.index!;
+    if (index < position) continue;
+
+    const active = isActive();
+    if (active) output += content.slice(position, index);
+    position = index + tag.length;
+
+    const variable = !tag.startsWith('$') && inner !== 'else' && inner.match(VARIABLE_PATTERN);
+    const value = variable ? variables[variable[1]] ?? variable[2]?.trim().replace(/^(["'])(.*)\1$/, '$2') : undefined;
+    if (codeRanges.some(([start, end]) => index >= start && index < end)) {
+      if (active) output += value === undefined ? tag : String(value);
+      continue;
+    }
+
+    const skipStandaloneLine = () => {
+      const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+      const lineEnd = content.indexOf('\n', position);
+      if (content.slice(lineStart, index).trim() || content.slice(position, lineEnd === -1 ? undefined : lineEnd).trim()) return;
+      if (active) output = output.slice(0, output.length - (index - lineStart));
+      position = lineEnd === -1 ? content.length : lineEnd + 1;
+    };
+
+    const block = inner.match(/^#(if|unless)\s+(.+)$/);
+    const condition = block ? evaluateCondition(block[2].trim(), variables) : undefined;
+    const current = blocks[blocks.length - 1];
+    if (block && condition !== undefined) {
+      blocks.push({ type: block[1] as 'if' | 'unless', condition: block[1] === 'if' ? condition : !condition, inElse: false });
+      skipStandaloneLine();
+    } else if (inner === 'else' && current && !current.inElse) {
+      current.inElse = true;
+      skipStandaloneLine();
+    } else if (current && inner === `/${current.type}`) {
+      blocks.pop();
+      skipStandaloneLine();
+    } else if (active && !variable) {
+      output += tag;
+    } else if (active && variable) {
+      if (value === undefined) unresolved.add(variable[1]);
+      else output += String(value);
+    }
+  }
+
+  if (isActive()) output += content.slice(position);
+  return { content: output, unresolved: Array.from(unresolved) };
+};
+
+export const loadEnvVariables = (env: NodeJS.ProcessEnv = process.env): TemplateVariables =>
+  Object.fromEntries(Object.entries(env).filter(([key, value]) => key.startsWith(TEMPLATE_ENV_PREFIX) && key.length > TEMPLATE_ENV_PREFIX.length && value !== undefined)
+    .map(([key, value]) => [key.slice(TEMPLATE_ENV_PREFIX.length), value as string]));
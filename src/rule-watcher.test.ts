@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleChangeEvent, RuleManager } from './rule-manager.js';
+import { RuleWatcher } from './rule-watcher.js';
+import { BaseRuleFileReader } from './rule-source.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+
+class PolledRuleSource extends BaseRuleFileReader {
+    readonly name = 'remote';
+    readonly remote = true;
+    revision = 'a'.repeat(40);
+    invalidations = 0;
+
+    constructor(public files: Record<string, string>) {
+        super();
+    }
+
+    async readRuleFile(domain: string): Promise<string> {
+        if (!(domain in this.files)) throw new Error(`Rule file not found for domain: ${domain}`);
+        return this.files[domain];
+    }
+
+    async listRuleFiles(): Promise<string[]> { return Object.keys(this.files); }
+
+    async ruleExists(domain: string): Promise<boolean> { return domain in this.files; }
+
+    async getRevision(): Promise<string | undefined> { return this.revision; }
+
+    async pollRevision(): Promise<string | undefined> { return this.revision; }
+
+    invalidate(): void { this.invalidations++; }
+
+    hasAuthToken(): boolean { return true; }
+
+    getRepositoryInfo(): string { return this.name; }
+}
+
+const waitFor = async (condition: () => boolean, timeout = 5000) => {
+    for (const start = Date.now(); !condition(); await new Promise(resolve => setTimeout(resolve, 10))) {
+        if (Date.now() - start > timeout) throw new Error('Timed out waiting for condition');
+    }
+};
+
+describe('RuleWatcher', () => {
+    let directory: string;
+    let watcher: RuleWatcher | undefined;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-watch-'));
+    });
+
+    afterEach(async () => {
+        watcher?.stop();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should reload changed local rules once edits settle', async () => {
+        await fs.writeFile(path.join(directory, 'react.md'), '# React');
+        const manager = new RuleManager([new LocalDirectoryFileReader(directory)], { variables: {} });
+        const events: RuleChangeEvent[] = [];
+        manager.onChange(event => events.push(event));
+        await manager.listAvailableDomains();
+
+        watcher = new RuleWatcher(manager, { enabled: true, pollInterval: 0, debounce: 100 });
+        await watcher.start();
+        await fs.writeFile(path.join(directory, 'react.md'), '# React v2');
+        await fs.writeFile(path.join(directory, 'vue.md'), '# Vue');
+        await fs.writeFile(path.join(directory, 'svelte.md'), '# Svelte');
+        await waitFor(() => events.length >= 2);
+
+        const listChanges = events.filter(event => event.type === 'listChanged');
+        expect(listChanges).toHaveLength(1);
+        expect(listChanges[0].type === 'listChanged' && listChanges[0].added.sort()).toEqual(['svelte', 'vue']);
+        expect(events).toContainEqual({ type: 'updated', domain: 'react' });
+        expect((await manager.getRuleContent('react'))?.content).toBe('# React v2');
+        expect(manager.getKnownDomains().sort()).toEqual(['react', 'svelte', 'vue']);
+    });
+
+    it('should poll remote sources for a new revision and refresh them', async () => {
+        const source = new PolledRuleSource({ react: '# React' });
+        const manager = new RuleManager([source], { variables: {} });
+        const events: RuleChangeEvent[] = [];
+        manager.onChange(event => events.push(event));
+        await manager.listAvailableDomains();
+
+        watcher = new RuleWatcher(manager, { enabled: true, pollInterval: 0, debounce: 10 });
+        await watcher.start();
+        expect(await watcher.poll()).toEqual([]);
+
+        source.revision = 'b'.repeat(40);
+        source.files = { react: '# React v2', testing: '# Testing' };
+        expect(await watcher.poll()).toEqual(['remote']);
+        await watcher.flush();
+
+        expect(source.invalidations).toBe(1);
+        expect(events).toEqual([{ type: 'listChanged', added: ['testing'], removed: [] }, { type: 'updated', domain: 'react' }]);
+    });
+
+    it('should not watch or poll when disabled', async () => {
+        const source = Object.assign(new PolledRuleSource({}), { watch: () => { throw new Error('should not watch'); } });
+        watcher = new RuleWatcher(new RuleManager([source], { variables: {} }), { enabled: false });
+
+        await watcher.start();
+
+        expect(await watcher.poll()).toEqual([]);
+    });
+
+    it('should treat a webhook refresh as explicit when watching is disabled', async () => {
+        await fs.writeFile(path.join(directory, 'react.md'), '# React');
+        const local = new LocalDirectoryFileReader(directory);
+        const source = new PolledRuleSource({ testing: '# Testing' });
+        const unknown = Object.assign(new PolledRuleSource({ vue: '# Vue' }), { name: 'unknown', getRevision: async () => undefined });
+        const manager = new RuleManager([local, source, unknown], { variables: {} });
+        await manager.listAvailableDomains();
+        await manager.getRuleContent('react');
+
+        watcher = new RuleWatcher(manager, { enabled: false, pollInterval: 0, debounce: 10 });
+        await watcher.start();
+        await fs.writeFile(path.join(directory, 'react.md'), '# React v2');
+        source.revision = 'b'.repeat(40);
+
+        expect((await watcher.refresh()).sort()).toEqual(['remote', 'unknown']);
+        await watcher.flush();
+
+        expect(source.invalidations).toBe(1);
+        expect(unknown.invalidations).toBe(1);
+        expect((await manager.getRuleContent('react'))?.content).toBe('# React v2');
+    });
+});
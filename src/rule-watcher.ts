@@ -0,0 +1,127 @@
+import { RuleManager } from './rule-manager.js';
+import { RuleSource } from './rule-source.js';
+import { WatchConfig } from './rule-config.js';
+import { getTtlFromEnv } from './disk-cache.js';
+import { Logger } from './error-handler.js';
+
+export interface RuleWatcherOptions {
+  enabled?: boolean;
+  pollInterval?: number;
+  debounce?: number;
+}
+
+export const DEFAULT_POLL_INTERVAL = 5 * 60 * 1000;
+export const DEFAULT_WATCH_DEBOUNCE = 1000;
+
+export const isWatchEnabled = (): boolean => !['0', 'false', 'off', 'no'].includes((process.env.RULES_WATCH || '').trim().toLowerCase());
+
+export const getWatchOptions = (config: WatchConfig = {}): Required<RuleWatcherOptions> => ({
+  enabled: config.enabled ?? isWatchEnabled(),
+  pollInterval: config.pollInterval !== undefined ? config.pollInterval * 1000 : getTtlFromEnv('RULES_POLL_INTERVAL', DEFAULT_POLL_INTERVAL),
+  debounce: config.debounce !== undefined ? config.debounce * 1000 : getTtlFromEnv('RULES_WATCH_DEBOUNCE', DEFAULT_WATCH_DEBOUNCE)
+});
+
+// Watches local sources for file changes and polls remote sources for a new head commit, then
+// reloads the affected rules once changes settle, so a bulk push triggers a single refresh.
+export class RuleWatcher {
+  private readonly ruleManager: RuleManager;
+  private readonly options: Required<RuleWatcherOptions>;
+  private readonly revisions: Map<RuleSource, string | undefined> = new Map();
+  private readonly pending: Map<RuleSource, Set<string> | null> = new Map();
+  private readonly stops: Array<() => void> = [];
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private polling: Promise<string[]> | null = null;
+
+  constructor(ruleManager: RuleManager, options: RuleWatcherOptions = {}) {
+    this.ruleManager = ruleManager;
+    this.options = { ...getWatchOptions(), ...options };
+  }
+
+  async start(): Promise<void> {
+    const pollable = this.getPollableSources();
+    await Promise.all(pollable.map(async (source) => { this.revisions.set(source, await source.getRevision?.().catch(() => undefined)); }));
+    if (!this.options.enabled) return;
+
+    for (const source of this.ruleManager.getSources()) {
+      if (!source.watch) continue;
+      try {
+        this.stops.push(source.watch(domains => this.schedule(source, domains)));
+      } catch (error) {
+        Logger.warn(`Cannot watch ${source.name} for changes`, { error: error instanceof Error ? error.message : error });
+      }
+    }
+
+    if (pollable.length === 0 || this.options.pollInterval <= 0) return;
+
+    const timer = setInterval(() => { this.poll().catch(error => Logger.warn('Polling rule sources failed', { error: error instanceof Error ? error.message : error })); }, this.options.pollInterval);
+    timer.unref();
+    this.stops.push(() => clearInterval(timer));
+  }
+
+  stop(): void {
+    this.stops.splice(0).forEach(stop => stop());
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+  }
+
+  poll(): Promise<string[]> {
+    this.polling ??= this.checkRevisions().finally(() => { this.polling = null; });
+    return this.polling;
+  }
+
+  // A verified webhook reloads sources that cannot be polled and any remote source whose head moved or was never known.
+  async refresh(): Promise<string[]> {
+    const pollable = this.getPollableSources();
+    this.ruleManager.getSources().filter(source => !pollable.includes(source)).forEach(source => this.schedule(source, []));
+    return this.poll();
+  }
+
+  async flush(): Promise<void> {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+
+    const batch = Array.from(this.pending);
+    this.pending.clear();
+    this.flushing = this.flushing.then(async () => {
+      for (const [source, domains] of batch) {
+        await this.ruleManager.refreshSource(source, domains ? Array.from(domains) : []).catch((error) => {
+          Logger.warn(`Failed to reload rules from ${source.name}`, { error: error instanceof Error ? error.message : error });
+        });
+      }
+    });
+    return this.flushing;
+  }
+
+  private async checkRevisions(): Promise<string[]> {
+    const changed: string[] = [];
+
+    await Promise.all(this.getPollableSources().map(async (source) => {
+      const previous = this.revisions.get(source);
+      const revision = await source.pollRevision!().catch(() => undefined);
+      if (revision === undefined) return;
+
+      this.revisions.set(source, revision);
+      if (previous === revision) return;
+      Logger.info(`New revision of ${source.name}: ${revision.slice(0, 12)}`, { previous: previous ?? 'unknown' });
+      changed.push(source.name);
+      this.schedule(source, []);
+    }));
+
+    return changed;
+  }
+
+  private schedule(source: RuleSource, domains: string[]): void {
+    const pending = this.pending.get(source);
+    if (domains.length === 0) this.pending.set(source, null);
+    else if (pending !== null) this.pending.set(source, new Set([...(pending ?? []), ...domains]));
+
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => { this.flush(); }, this.options.debounce);
+    this.debounceTimer.unref();
+  }
+
+  private getPollableSources(): RuleSource[] {
+    return this.ruleManager.getSources().filter(source => source.remote && source.pollRevision);
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { fileURLToPath } from 'url';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from './server.js';
+import { RuleManager } from './rule-manager.js';
+import { LocalDirectoryFileReader } from './local-directory-file-reader.js';
+
+type ToolResult = { content: Array<{ type: string; text?: string; resource?: { uri: string; text: string } }>; structuredContent?: any };
+
+describe('tool response formats', () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const callTool = async (name: string, args: Record<string, unknown>) => await client.callTool({ name, arguments: args }) as ToolResult;
+
+    beforeAll(async () => {
+        const ruleManager = new RuleManager([new LocalDirectoryFileReader(fileURLToPath(new URL('../rules', import.meta.url)))], { variables: {} });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer(ruleManager).connect(serverTransport);
+        await client.connect(clientTransport);
+        await client.listTools();
+    });
+
+    afterAll(async () => {
+        await client.close();
+    });
+
+    it('should keep the JSON text block by default and add structured content', async () => {
+        const result = await callTool('get_rules', { domain: 'react' });
+
+        expect(JSON.parse(result.content[0].text!)).toMatchObject({ title: 'react' });
+        expect(result.structuredContent).toMatchObject({ rules: [{ title: 'react' }], total: 1 });
+    });
+
+    it('should return raw markdown with a header per domain', async () => {
+        const result = await callTool('get_rules', { domains: ['react', 'security', 'missing'], format: 'markdown' });
+        const react = result.structuredContent.rules[0].content;
+
+        expect(result.content).toHaveLength(1);
+        expect(result.content[0].text).toContain(`# react\n\n${react}\n\n---\n\n# security\n\n`);
+        expect(result.content[0].text).toContain('> Not found: missing');
+        expect(result.structuredContent.failed).toEqual(['missing']);
+    });
+
+    it('should return each rule body as a separate content item', async () => {
+        const result = await callTool('get_rules', { domains: ['react', 'security'], format: 'structured' });
+
+        expect(result.content.map(item => item.resource?.uri)).toEqual(['rules://react', 'rules://security', undefined]);
+        expect(result.content[0].resource!.text).toBe(result.structuredContent.rules[0].content);
+        expect(JSON.parse(result.content[2].text!)).toEqual({ rules: [{ title: 'react', version: '1.0' }, { title: 'security', version: '1.0' }], total: 2 });
+    });
+
+    it('should list the available headings of domains without a matching section', async () => {
+        const result = await callTool('get_rules', { domains: ['react', 'security'], section: 'State Management' });
+        const [missing] = result.structuredContent.sectionsNotFound;
+
+        expect(result.structuredContent.rules.map((rule: { title: string }) => rule.title)).toEqual(['react']);
+        expect(missing.domain).toBe('security');
+        expect(missing.availableHeadings).toContain('Secure Coding and OWASP Guidelines > Instructions');
+    });
+
+    it('should list domains as markdown and structured content', async () => {
+        const result = await callTool('list_rules', { format: 'markdown' });
+
+        expect(result.content[0].text).toMatch(/^# Rule domains \(\d+\)\n\n- \*\*/);
+        expect(result.structuredContent.domains.map((d: { domain: string }) => d.domain)).toContain('react');
+        await expect(callTool('list_rules', { format: 'yaml' })).rejects.toThrow('Invalid format: yaml');
+    });
+
+    it('should report server status and refresh selected rules', async () => {
+        const refreshed = JSON.parse((await callTool('refresh_rules', { domains: ['react'] })).content[0].text!);
+        const status = JSON.parse((await callTool('server_status', {})).content[0].text!);
+
+        expect(refreshed).toMatchObject({ refreshed: [{ domain: 'react', changed: false }], missing: [] });
+        expect(status.sources).toMatchObject([{ remote: false, auth: 'none' }]);
+        expect(status.cache.domains).toContainEqual(expect.objectContaining({ domain: 'react', cached: true }));
+        await expect(callTool('refresh_rules', { domains: [] })).rejects.toThrow('domains');
+    });
+
+    it('should list the known domains in the domain parameter once rules were listed', async () => {
+        await callTool('list_rules', {});
+        const { tools } = await client.listTools();
+        const getRules = tools.find(tool => tool.name === 'get_rules')!;
+
+        expect((getRules.inputSchema.properties as any).domain.description).toMatch(/\(available: .*react.*\)$/);
+        expect(client.getServerCapabilities()?.tools).toEqual({ listChanged: true });
+    });
+});
+
+describe('domain names', () => {
+    it('should get dotted domains exactly as list_rules returns them', async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rules-server-'));
+        await fs.writeFile(path.join(directory, 'next.js.md'), '# Next.js');
+        await fs.writeFile(path.join(directory, 'vue.js.md'), '# Vue.js');
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await createServer(new RuleManager([new LocalDirectoryFileReader(directory)], { variables: {} })).connect(serverTransport);
+        await client.connect(clientTransport);
+
+        try {
+            const listed = await client.callTool({ name: 'list_rules', arguments: {} }) as ToolResult;
+            const domains = listed.structuredContent.domains.map((d: { domain: string }) => d.domain).sort();
+            const result = await client.callTool({ name: 'get_rules', arguments: { domains } }) as ToolResult;
+
+            expect(domains).toEqual(['next.js', 'vue.js']);
+            expect(result.structuredContent.rules.map((rule: { content: string }) => rule.content)).toEqual(['# Next.js', '# Vue.js']);
+            await expect(client.callTool({ name: 'get_rules', arguments: { domain: '../next.js' } })).rejects.toThrow('Invalid domain name');
+        } finally {
+            await client.close();
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
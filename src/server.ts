@@ -0,0 +1,944 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema, ErrorCode, GetPromptRequestSchema, ListPromptsRequestSchema, ListResourcesRequestSchema, ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema, McpError, ReadResourceRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { RuleManager } from './rule-manager.js';
+import { DomainInfo, RuleProvenance, isValidDomainName } from './rule-source.js';
+import { OutlineNode, extractSections, flattenOutline, parseOutline } from './markdown-outline.js';
+import { BUDGET_FALLBACKS, BUDGET_ORDERS, BudgetedItem, BudgetFallback, BudgetOptions, BudgetOrder, BudgetReport, applyBudget } from './token-budget.js';
+import { isValidVersionRange, satisfiesVersion } from './git-ref.js';
+import { TemplateVariables, isTemplateValue } from './rule-template.js';
+import { DEFAULT_MAX_RULE_FILE_SIZE, lintRuleSources, toSarif } from './rule-linter.js';
+import { EXPORT_TARGETS, ExportTarget, isExportTarget } from './rule-export.js';
+import { LOCKFILE_NAME, installRules, syncRules } from './rule-install.js';
+import { ToolsConfig } from './rule-config.js';
+import { ErrorHandler, Logger } from './error-handler.js';
+
+const RESPONSE_FORMATS = ['json', 'markdown', 'structured'] as const;
+type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+const STRING_LIST_SCHEMA = { type: 'array', items: { type: 'string' } } as const;
+
+const RULES_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' }, content: { type: 'string' }, sections: STRING_LIST_SCHEMA, summarized: { type: 'boolean' }, truncated: { type: 'boolean' },
+          version: { type: 'string' }, commit: { type: 'string' }, stale: { type: 'boolean' },
+          provenance: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { domain: { type: 'string' }, via: { type: 'string', enum: ['extends', 'include'] }, source: { type: 'string' }, commit: { type: 'string' }, section: { type: 'string' }, startLine: { type: 'integer' }, endLine: { type: 'integer' } },
+              required: ['domain', 'via', 'startLine', 'endLine']
+            }
+          },
+          compositionErrors: STRING_LIST_SCHEMA, unresolvedVariables: STRING_LIST_SCHEMA
+        },
+        required: ['title', 'content']
+      }
+    },
+    total: { type: 'integer' },
+    failed: STRING_LIST_SCHEMA,
+    sectionsNotFound: { type: 'array', items: { type: 'object', properties: { domain: { type: 'string' }, availableHeadings: STRING_LIST_SCHEMA }, required: ['domain', 'availableHeadings'] } },
+    versionMismatch: { type: 'array', items: { type: 'object', properties: { domain: { type: 'string' }, version: { type: ['string', 'null'] } }, required: ['domain', 'version'] } },
+    budget: {
+      type: 'object',
+      properties: {
+        maxTokens: { type: 'integer' }, maxChars: { type: 'integer' }, order: { type: 'string', enum: BUDGET_ORDERS }, usedTokens: { type: 'integer' }, usedChars: { type: 'integer' },
+        summarized: STRING_LIST_SCHEMA, truncated: STRING_LIST_SCHEMA, omitted: STRING_LIST_SCHEMA
+      },
+      required: ['order', 'usedTokens', 'usedChars', 'summarized', 'truncated', 'omitted']
+    }
+  },
+  required: ['rules', 'total']
+};
+
+const LIST_RULES_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    domains: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          domain: { type: 'string' }, description: { type: 'string' }, lastUpdated: { type: 'string' }, tags: STRING_LIST_SCHEMA, globs: STRING_LIST_SCHEMA, applyTo: STRING_LIST_SCHEMA,
+          alwaysApply: { type: 'boolean' }, priority: { type: 'number' }, author: { type: 'string' }, dependsOn: STRING_LIST_SCHEMA, extends: STRING_LIST_SCHEMA,
+          source: { type: 'string' }, shadows: STRING_LIST_SCHEMA, commit: { type: 'string' }, stale: { type: 'boolean' }
+        },
+        required: ['domain', 'description']
+      }
+    },
+    totalCount: { type: 'integer' },
+    message: { type: 'string' }
+  },
+  required: ['domains', 'totalCount', 'message']
+};
+
+const TOOLS = [
+  {
+    name: 'get_rules',
+    description: `Retrieves development rules and best practices for specific domains from GitHub repository rules folder.
+
+Supports both .md and .mdc markdown files with flexible structure - works with any markdown content even without specific metadata.
+
+IMPORTANT: When users request "apply all rules" or "get all rules", use the 'domains' parameter with ALL available domain names from list_rules to return every rule at once.
+
+You MUST call 'list_rules' first to see available domains UNLESS you already know the exact domain names.
+
+Usage Patterns:
+- Single domain: {"domain": "react"} - Gets one specific rule set
+- Multiple domains: {"domains": ["react", "security", "typescript"]} - Gets multiple specific rule sets  
+- ALL rules: {"domains": ["domain1", "domain2", "domain3", ...]} - Gets every available rule (use ALL domain names from list_rules)
+- One section: {"domain": "security", "section": "SQL Injection"} - Gets only that heading and its subheadings (see get_rule_outline)
+- Several sections: {"domain": "security", "headings": ["SQL Injection", "XSS"]} - Gets only the matching subtrees; domains without a match are listed in 'sectionsNotFound' with their availableHeadings
+- With a budget: {"domains": [...], "maxTokens": 8000, "order": "priority"} - Keeps the response within a context budget; rules that don't fit are summarized, truncated or omitted and reported in 'budget'
+- At a pinned revision: {"domain": "react", "ref": "v1.2.0"} - Reads the rule at a tag, commit SHA or semver range; the resolved 'commit' is reported
+- With a version constraint: {"domains": [...], "version": "^2.0"} - Only returns rules whose declared version satisfies the range
+- With template variables: {"domain": "node", "variables": {"nodeVersion": "22"}} - Fills {{nodeVersion}} placeholders; placeholders without a value are removed and listed in 'unresolvedVariables'
+
+Rules that declare frontmatter 'extends' or contain <!-- include: domain#section --> directives are returned composed. 'provenance' lists the line ranges that came from each extended or included domain, and 'compositionErrors' reports cycles, missing dependencies or sections that could not be resolved.
+
+Selection Process:
+1. If user says "apply all rules" or "get all rules" → Call list_rules first, then use ALL domain names in the domains array
+2. For specific requests → Analyze what development domain/technology the user needs rules for
+3. Return the most relevant rule content based on:
+   - Exact domain name match (e.g., "react", "security", "typescript")
+   - Content relevance to the user's development context
+   - Comprehensive coverage of best practices and guidelines
+
+For ambiguous requests, request clarification before proceeding with a best-guess match.
+
+Response formats ('format'):
+- "json" (default): one JSON text block; a single domain returns {title, content, ...}, several return {rules: [...], total, ...}
+- "markdown": the rule bodies as raw markdown under a "# <domain>" header each, with notes for missing, summarized or truncated rules
+- "structured": each rule body as a separate rules://<domain> resource item, followed by a JSON text block with the remaining fields
+Every format also returns structuredContent as {rules: [...], total, ...}, matching the tool's outputSchema.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string', description: 'The domain name to retrieve rules for (e.g., "react", "security"). Use this for single domain requests.' },
+        domains: { type: 'array', items: { type: 'string' }, description: 'Array of domain names to retrieve rules for. Use ALL available domain names from list_rules when user requests "apply all rules" (e.g., ["react", "security", "nextjs", "typescript", "clean-code", ...]). Use this for multiple domain requests.' },
+        section: { type: 'string', description: 'Optional heading to return instead of the whole rule (matches heading text, slug, or a "Parent > Child" path).' },
+        headings: { type: 'array', items: { type: 'string' }, description: 'Optional list of headings to return; each matching heading is returned with its subheadings.' },
+        maxTokens: { type: 'number', description: 'Optional approximate token budget for all returned rule content combined.' },
+        maxChars: { type: 'number', description: 'Optional character budget for all returned rule content combined.' },
+        order: { type: 'string', enum: BUDGET_ORDERS, description: 'Order in which rules claim the budget: "request" (default), "priority" (frontmatter priority, highest first) or "smallest" (fit as many rules as possible).' },
+        fallback: { type: 'string', enum: BUDGET_FALLBACKS, description: 'What to return for rules that do not fit: "summary" (default; description and headings), "truncate" (cut at the budget) or "omit".' },
+        ref: { type: 'string', description: 'Optional git ref to read the rules at instead of the configured one: a branch, tag, commit SHA or semver range matched against repository tags (e.g., "v1.2.0", "^1.0"). Only supported for GitHub sources.' },
+        version: { type: 'string', description: 'Optional semver range the rule\'s frontmatter "version" must satisfy (e.g., "^2.0"). Rules that do not match are reported in versionMismatch.' },
+        variables: { type: 'object', additionalProperties: { type: ['string', 'number', 'boolean'] }, description: 'Optional values for {{placeholders}} and {{#if}} blocks in rule content (e.g., {"nodeVersion": "22", "packageManager": "pnpm"}). Overrides RULES_VAR_* environment variables and the project config file.' },
+        format: { type: 'string', enum: RESPONSE_FORMATS, description: 'Response format: "json" (default), "markdown" or "structured".' }
+      }
+    },
+    outputSchema: RULES_OUTPUT_SCHEMA
+  },
+  {
+    name: 'get_rule_outline',
+    description: `Returns the table of contents (heading tree) of a rule without its body.
+
+Use this before get_rules with a 'section' or 'headings' selector to fetch only the parts of a large rule you need, saving context.
+
+Usage:
+- {"domain": "security"}
+
+Response Format:
+- Returns {domain, outline: [{title, level, slug, children}]}`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string', description: 'The domain name to outline (e.g., "security")' }
+      },
+      required: ['domain']
+    }
+  },
+  {
+    name: 'get_rules_for_files',
+    description: `Retrieves every rule that applies to the files you are working on, using the rule files' own frontmatter patterns.
+
+Rules are selected when their 'globs' (Cursor .mdc) or 'applyTo' (Copilot .instructions.md) patterns match any of the given paths. Rules marked 'alwaysApply: true' are always included.
+
+Use this instead of guessing domain names when you already know which files you are editing.
+
+Usage:
+- {"files": ["src/components/Button.tsx", "src/api/users.ts"]}
+
+Response Format:
+- Returns {rules: [{title, content, matchedFiles, alwaysApply}], total} - the same shape as get_rules with multiple domains`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: { type: 'string' }, description: 'Workspace-relative paths of the files being read or edited (e.g., ["src/app/page.tsx", "api/main.py"]).' }
+      },
+      required: ['files']
+    }
+  },
+  {
+    name: 'search_rules',
+    description: `Searches the full text of all rules and returns ranked matches with the domain, matching heading and a snippet.
+
+Use this to find which rule covers a topic (e.g., "SQL injection", "useEffect cleanup") when list_rules descriptions are not specific enough, then call get_rules with the returned domain.
+
+Usage:
+- {"query": "sql injection"}
+- {"query": "error handling", "tags": ["backend"], "limit": 5}
+- {"query": "naming", "source": "local:/path/to/rules"}
+
+Response Format:
+- Returns {results: [{domain, heading, snippet, score, source}], total, query}`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words or phrase to search for in rule content' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Only return rules with at least one of these frontmatter tags' },
+        source: { type: 'string', description: 'Only return rules served from this source (as reported by list_rules)' },
+        limit: { type: 'number', description: 'Maximum number of results to return (default 10)' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'diff_rules',
+    description: `Shows how a rule changed between two revisions of its GitHub source: a unified diff of the rule file plus the commits that touched it.
+
+Use this to explain why agent behavior changed after the rules repository was updated.
+
+Usage:
+- {"domain": "react", "from": "v1.0.0"} - Changes from a tag to the currently served revision
+- {"domain": "react", "from": "v1.0.0", "to": "v2.0.0"} - Changes between two tags, branches, commit SHAs or semver ranges
+- {"domain": "react", "from": "2025-01-01"} - Changes since a date (ISO 8601 timestamps are resolved to the last commit before them)
+- {"domain": "react", "sinceLastFetch": true} - Changes since this server last fetched the rule
+
+Response Format:
+- Returns {domain, source, path, from: {ref, commit, date}, to: {ref, commit, date}, status, additions, deletions, diff, commits: [{sha, message, date, author, url}]}
+- status is "added", "removed", "modified" or "unchanged"`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domain: { type: 'string', description: 'The domain name to diff (as listed by list_rules)' },
+        from: { type: 'string', description: 'Older revision: a branch, tag, commit SHA, semver range or ISO 8601 timestamp' },
+        to: { type: 'string', description: 'Newer revision (default: the configured ref)' },
+        sinceLastFetch: { type: 'boolean', description: 'Compare against the revision this server last fetched instead of "from"' }
+      },
+      required: ['domain']
+    }
+  },
+  {
+    name: 'validate_rules',
+    description: `Checks every configured rule source for problems that degrade what agents receive: invalid frontmatter, duplicate or shadowed domains, invalid file names, invalid globs, broken extends/include directives and links, empty bodies and oversized files.
+
+Usage:
+- {} - JSON report of all diagnostics
+- {"format": "sarif"} - SARIF 2.1.0 log for code scanning tools
+
+Response Format:
+- Returns {valid, sources, rulesChecked, errors, warnings, diagnostics: [{ruleId, level, message, source, domain, file, line}]}
+- valid is false when any diagnostic has level "error"`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: { type: 'string', enum: ['json', 'sarif'], description: 'Output format (default "json")' },
+        maxFileSize: { type: 'number', description: `Largest rule file in bytes before an oversized-file warning (default ${DEFAULT_MAX_RULE_FILE_SIZE})` }
+      }
+    }
+  },
+  {
+    name: 'export_rules',
+    description: `Renders rules into the native rule format of an AI coding tool so they can be committed to a project.
+
+Targets:
+- cursor: one .cursor/rules/<domain>.mdc per rule with description, globs and alwaysApply frontmatter
+- copilot: one .github/instructions/<domain>.instructions.md per rule with applyTo frontmatter
+- agents: a single AGENTS.md with one section per rule
+- claude: a single CLAUDE.md with one section per rule
+- windsurf: a single .windsurfrules file
+
+globs and applyTo are mapped onto each other, and alwaysApply becomes applyTo "**" for Copilot. Single-file targets note each rule's file patterns under its heading.
+
+Usage:
+- {"target": "cursor"} - Export every rule
+- {"target": "copilot", "domains": ["react", "testing"]} - Export selected rules
+
+Response Format:
+- Returns {target, files: [{path, content}], warnings}
+- Paths are relative to the project root; nothing is written to disk`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', enum: [...EXPORT_TARGETS], description: 'The tool whose rule format to render' },
+        domains: { type: 'array', items: { type: 'string' }, description: 'Domains to export (default: all rules)' }
+      },
+      required: ['target']
+    }
+  },
+  {
+    name: 'install_rules',
+    description: `Writes rules into the workspace (the server's working directory) in a tool's native format and records them in ${LOCKFILE_NAME}.
+
+The lockfile stores each file's rule domains, source, ref and content hash. Files edited locally since they were installed are reported as conflicts and left untouched unless force is set. Writes outside the workspace root are refused.
+
+Usage:
+- {"target": "cursor", "domains": ["react", "testing"]} - Install rules as .cursor/rules/*.mdc
+- {"target": "agents", "domains": ["security"], "directory": "packages/api"} - Add a rule to packages/api/AGENTS.md
+- {"sync": true} - Update every installed file from the current rule sources
+- {"sync": true, "dryRun": true} - Report what a sync would change without writing
+
+Response Format:
+- Returns {root, lockfile, dryRun, files: [{path, status, domains, reason}], warnings}
+- status is "added", "updated", "unchanged", "conflict" or "missing" (rule no longer available)`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', enum: [...EXPORT_TARGETS], description: 'The tool whose rule format to write (required unless sync is set)' },
+        domains: { type: 'array', items: { type: 'string' }, description: 'Domains to install (required unless sync is set)' },
+        directory: { type: 'string', description: 'Directory relative to the workspace root to install into (default: the root)' },
+        sync: { type: 'boolean', description: 'Update the files listed in the lockfile instead of installing new rules' },
+        dryRun: { type: 'boolean', description: 'Report the changes without writing files or the lockfile' },
+        force: { type: 'boolean', description: 'Overwrite files that were edited locally' }
+      }
+    }
+  },
+  {
+    name: 'list_rules',
+    description: `Lists all available development rule domains with descriptions and metadata from the GitHub repository.
+
+Supports both .md and .mdc markdown files with flexible metadata extraction - automatically generates descriptions even for files without explicit metadata.
+
+This function provides a comprehensive overview of all available rule sets, helping users discover relevant development guidelines and best practices.
+
+Discovery Process:
+1. Scans the rules folder in repository for all available .md and .mdc files
+2. Extracts metadata including descriptions, last updated timestamps and YAML frontmatter fields such as tags, globs and applyTo (when available)
+3. Auto-generates descriptions from content when explicit metadata is missing
+4. Returns organized list with domain names matching filename conventions
+
+Response Format:
+- Returns {domains: [{domain, description, lastUpdated, tags, globs, applyTo, alwaysApply, priority, author, dependsOn, extends, source, shadows, commit, stale}], totalCount, message} object
+- Each domain entry includes:
+  - domain: The exact name to use with 'get_rules' (matches filename without .md/.mdc extension)
+  - description: Human-readable summary of what the rules cover (extracted or auto-generated)
+  - lastUpdated: When the rules were last modified (if available in metadata)
+  - tags, globs, applyTo, alwaysApply, priority, author, dependsOn, extends: Frontmatter metadata (only present when the rule defines it)
+  - source: The rule source the domain is served from
+  - shadows: Lower-priority sources that also define this domain and are overridden (only present when shadowing occurs)
+  - commit: The commit the rule was read from (GitHub sources; pinned with a tag, SHA or semver range in the source ref)
+  - stale: true when the remote source was unreachable or rate limited and a cached copy was served
+
+Usage:
+- Call this function first to explore available rule domains
+- Use the returned domain names exactly as shown when calling 'get_rules'
+- Review descriptions to find the most relevant rules for your development context
+
+No parameters required - simply call list_rules() to see all available options. Pass {"format": "markdown"} for a markdown bullet list instead of JSON; structuredContent always holds the JSON object.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: { type: 'string', enum: RESPONSE_FORMATS, description: 'Response format: "json" (default), "markdown" or "structured" (same as json, since list_rules returns no rule bodies).' }
+      },
+      additionalProperties: false
+    },
+    outputSchema: LIST_RULES_OUTPUT_SCHEMA
+  },
+  {
+    name: 'server_status',
+    description: `Reports the state of the rule sources and caches, to explain missing, stale or generic results.
+
+Usage:
+- {} - Status of every source and cached domain
+
+Response Format:
+- Returns {sources: [{name, remote, auth, info, ref, resolvedRef, commit, stale, rateLimit: {limit, remaining, resetAt, pausedUntil}, lastError}], cache: {ttlSeconds, size, hits, misses, domains: [{domain, hits, misses, cached, ageSeconds, source, commit, stale}]}, recentErrors: [{time, source, domain, message}], notes}
+- auth is "token", "basic", "anonymous" (remote source without credentials) or "none" (local sources)
+- rateLimit reflects the headers of the source's last API response
+- notes explain degraded behavior, e.g. why list_rules returns generic descriptions`,
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false }
+  },
+  {
+    name: 'refresh_rules',
+    description: `Invalidates cached rules and fetches them again from their sources, so upstream edits show up before the cache expires.
+
+Cached API responses are revalidated with their ETags, which does not count against GitHub's rate limit when nothing changed.
+
+Usage:
+- {} - Refresh the domain list and every rule
+- {"domains": ["react", "testing"]} - Refresh selected rules
+
+Response Format:
+- Returns {refreshed: [{domain, source, commit, changed, stale}], missing}
+- changed is true when the content differs from the previously cached copy; stale is true when the source was unreachable and a cached copy was kept`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domains: { type: 'array', items: { type: 'string' }, description: 'Domains to refresh (default: all rules)' }
+      },
+      additionalProperties: false
+    }
+  }
+] as const;
+
+const validateArgs = (args: unknown) => {
+  if (!args || typeof args !== 'object') {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Invalid arguments: expected object with domain or domains property', undefined,
+      ['Provide a domain parameter as a string: {"domain": "react"}', 'Or provide domains parameter as an array: {"domains": ["react", "security"]}']);
+  }
+};
+
+const validateDomainInput = (domain: unknown, domains: unknown): string[] => {
+  const hasOnlyDomain = domain && !domains;
+  const hasOnlyDomains = domains && !domain;
+
+  if (!hasOnlyDomain && !hasOnlyDomains) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Must provide either domain or domains parameter, but not both', undefined,
+      ['For single domain: {"domain": "react"}', 'For multiple domains: {"domains": ["react", "security"]}']);
+  }
+
+  if (hasOnlyDomain) {
+    if (typeof domain !== 'string' || domain.trim().length === 0) throw ErrorHandler.handleDomainValidationError(domain as string);
+    return [domain as string];
+  }
+
+  if (!Array.isArray(domains) || domains.length === 0) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams,
+      Array.isArray(domains) && domains.length === 0 ? 'Domains array cannot be empty' : 'Invalid domains parameter: must be an array of strings',
+      undefined, ['Provide at least one domain in the array', 'Example: {"domains": ["react"]}']);
+  }
+
+  domains.forEach(d => {
+    if (typeof d !== 'string' || d.trim().length === 0) {
+      throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'All domains must be non-empty strings', undefined,
+        ['Ensure all items in domains array are valid strings', 'Example: {"domains": ["react", "security"]}']);
+    }
+  });
+
+  return domains as string[];
+};
+
+const validateFileInput = (files: unknown): string[] => {
+  if (!Array.isArray(files) || files.length === 0 || files.some(f => typeof f !== 'string' || f.trim().length === 0)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Invalid files parameter: must be a non-empty array of file paths', undefined,
+      ['Provide the paths of the files being edited', 'Example: {"files": ["src/components/Button.tsx"]}']);
+  }
+
+  return files as string[];
+};
+
+const validateSearchInput = (args: Record<string, unknown>): { query: string; tags?: string[]; source?: string; limit?: number } => {
+  const { query, tags, source, limit } = args;
+
+  if (typeof query !== 'string' || query.trim().length === 0) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Query parameter must be a non-empty string', undefined, ['Example: {"query": "sql injection"}']);
+  }
+
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(t => typeof t !== 'string'))) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Tags parameter must be an array of strings', undefined, ['Example: {"query": "hooks", "tags": ["react"]}']);
+  }
+
+  if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Limit parameter must be a positive integer', undefined, ['Example: {"query": "hooks", "limit": 5}']);
+  }
+
+  return { query, tags: tags as string[] | undefined, source: typeof source === 'string' ? source : undefined, limit: limit as number | undefined };
+};
+
+const sanitizeDomains = (domains: string[]): string[] => domains.map(d => {
+  if (!isValidDomainName(d)) throw ErrorHandler.handleDomainValidationError(d);
+  return d;
+});
+
+const processRuleResults = async (ruleManager: RuleManager, sanitizedDomains: string[], ref?: string, variables?: TemplateVariables) => {
+  const results = await Promise.allSettled(sanitizedDomains.map(async (domain) => {
+    const ruleContent = ref ? await ruleManager.getRuleContentAtRef(domain, ref, variables)
+      : variables ? await ruleManager.getRuleContent(domain, variables) : await ruleManager.getRuleContentSafe(domain);
+    if (!ruleContent) throw new Error(`Rule not found for domain: ${domain}`);
+    return {
+      domain: ruleContent.domain, content: ruleContent.content, description: ruleContent.description, priority: ruleContent.metadata?.priority, version: ruleContent.version,
+      ...(ruleContent.commit && { commit: ruleContent.commit }), ...(ruleContent.stale && { stale: true }),
+      ...(ruleContent.provenance?.length && { provenance: ruleContent.provenance }), ...(ruleContent.compositionErrors && { compositionErrors: ruleContent.compositionErrors }),
+      ...(ruleContent.unresolvedVariables && { unresolvedVariables: ruleContent.unresolvedVariables })
+    };
+  }));
+
+  const successfulResults = results.filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled').map(r => r.value);
+  const failedDomains = results.map((r, i) => r.status === 'rejected' ? sanitizedDomains[i] : null).filter(Boolean) as string[];
+
+  if (successfulResults.length === 0) {
+    const availableDomains = await ruleManager.listAvailableDomains();
+    const reasons = ref ? results.flatMap(r => r.status === 'rejected' ? [String(r.reason instanceof Error ? r.reason.message : r.reason)] : []) : [];
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `No rules found for any of the requested domains: ${failedDomains.join(', ')}${ref ? ` at ref ${ref}` : ''}`, undefined, [
+      ...reasons, 'Check if the domain names are spelled correctly', 'Use list_rules to see available domains',
+      `Available domains: ${availableDomains.map(d => d.domain).join(', ')}`, 'Domain names should match the filename without .md extension'
+    ]);
+  }
+
+  return { successfulResults, failedDomains };
+};
+
+const validateSectionInput = (section: unknown, headings: unknown): string[] | undefined => {
+  if (section === undefined && headings === undefined) return undefined;
+
+  const selectors = [...(section !== undefined ? [section] : []), ...(Array.isArray(headings) ? headings : headings !== undefined ? [headings] : [])];
+  if (selectors.length === 0 || selectors.some(s => typeof s !== 'string' || s.trim().length === 0)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'Section selectors must be non-empty strings', undefined,
+      ['For one section: {"domain": "security", "section": "SQL Injection"}', 'For several sections: {"domain": "security", "headings": ["SQL Injection", "XSS"]}', 'Use get_rule_outline to see available headings']);
+  }
+
+  return selectors as string[];
+};
+
+const validateBudgetInput = (args: Record<string, unknown>): BudgetOptions | undefined => {
+  const { maxTokens, maxChars, order, fallback } = args;
+  if (maxTokens === undefined && maxChars === undefined) {
+    if (order !== undefined || fallback !== undefined) {
+      throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'order and fallback require maxTokens or maxChars', undefined, ['Example: {"domains": ["react", "security"], "maxTokens": 8000, "order": "priority"}']);
+    }
+    return undefined;
+  }
+
+  for (const [key, value] of Object.entries({ maxTokens, maxChars })) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 1)) {
+      throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `${key} must be a positive integer`, undefined, [`Example: {"domains": ["react"], "${key}": 8000}`]);
+    }
+  }
+
+  if (order !== undefined && !BUDGET_ORDERS.includes(order as BudgetOrder)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid order: ${String(order)}`, undefined, [`Use one of: ${BUDGET_ORDERS.join(', ')}`]);
+  }
+
+  if (fallback !== undefined && !BUDGET_FALLBACKS.includes(fallback as BudgetFallback)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid fallback: ${String(fallback)}`, undefined, [`Use one of: ${BUDGET_FALLBACKS.join(', ')}`]);
+  }
+
+  return { maxTokens: maxTokens as number | undefined, maxChars: maxChars as number | undefined, order: order as BudgetOrder | undefined, fallback: fallback as BudgetFallback | undefined };
+};
+
+type RuleResult = { domain: string; content: string; description?: string; priority?: number; version?: string; commit?: string; sections?: string[]; stale?: boolean; provenance?: RuleProvenance[]; compositionErrors?: string[]; unresolvedVariables?: string[] };
+
+const validateVariablesInput = (variables: unknown): TemplateVariables | undefined => {
+  if (variables === undefined) return undefined;
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables) || !Object.values(variables).every(isTemplateValue)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'variables must map names to strings, numbers or booleans', undefined,
+      ['Example: {"domain": "node", "variables": {"nodeVersion": "22", "strict": true}}']);
+  }
+  return variables as TemplateVariables;
+};
+
+const validateRefInput = (ref: unknown): string | undefined => {
+  if (ref === undefined) return undefined;
+  if (typeof ref !== 'string' || ref.trim().length === 0 || ref.includes('..') || /[\x00-\x1f]/.test(ref)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'ref must be a branch, tag, commit SHA or semver range', undefined,
+      ['Example: {"domain": "react", "ref": "v1.2.0"}', 'Example: {"domain": "react", "ref": "^1.0"}']);
+  }
+  return ref.trim();
+};
+
+const validateVersionInput = (version: unknown): string | undefined => {
+  if (version === undefined) return undefined;
+  if (typeof version !== 'string' || !isValidVersionRange(version)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid version constraint: ${String(version)}`, undefined, ['Use a semver range such as "^2.0", "~1.4" or ">=1.0 <3"']);
+  }
+  return version;
+};
+
+const filterByVersion = (rules: RuleResult[], range: string) => {
+  const matching = rules.filter(rule => satisfiesVersion(rule.version, range));
+  const mismatched = rules.filter(rule => !matching.includes(rule)).map(({ domain, version }) => ({ domain, version: version ?? null }));
+
+  if (matching.length === 0) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `No requested rules satisfy version ${range}`, undefined,
+      [...mismatched.map(({ domain, version }) => `${domain} is at version ${version ?? '(none declared)'}`), 'Pass a ref (tag, commit or semver range) to fetch an older revision of the rules']);
+  }
+
+  return { matching, mismatched };
+};
+
+const selectRuleSections = (rules: RuleResult[], selectors: string[]) => {
+  const selected: RuleResult[] = [];
+  const unmatched: Array<{ domain: string; availableHeadings: string[] }> = [];
+
+  for (const rule of rules) {
+    const { content, matched } = extractSections(rule.content, selectors);
+    if (matched.length > 0) selected.push({ ...rule, content, sections: matched });
+    else unmatched.push({ domain: rule.domain, availableHeadings: flattenOutline(parseOutline(rule.content)).map(node => node.path) });
+  }
+
+  if (selected.length === 0) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `No sections matching ${selectors.map(s => `"${s}"`).join(', ')} found`, undefined,
+      unmatched.map(({ domain, availableHeadings }) => `Available headings in ${domain}: ${availableHeadings.join('; ') || '(none)'}`));
+  }
+
+  return { selected, unmatched };
+};
+
+const formatResponse = (data: any) => ({ content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] });
+
+const validateFormatInput = (format: unknown): ResponseFormat => {
+  if (format === undefined) return 'json';
+  if (!RESPONSE_FORMATS.includes(format as ResponseFormat)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid format: ${String(format)}`, undefined, [`Use one of: ${RESPONSE_FORMATS.join(', ')}`]);
+  }
+  return format as ResponseFormat;
+};
+
+type RuleResponse = ReturnType<typeof toRuleResponse>;
+type RulesResponse = { rules: RuleResponse[]; total: number; failed?: string[]; sectionsNotFound?: Array<{ domain: string; availableHeadings: string[] }>; versionMismatch?: Array<{ domain: string; version: string | null }>; budget?: BudgetReport };
+
+const toRuleResponse = (rule: BudgetedItem<RuleResult>) => ({
+  title: rule.domain,
+  content: rule.content,
+  ...(rule.sections && { sections: rule.sections }),
+  ...(rule.summarized && { summarized: true }),
+  ...(rule.truncated && { truncated: true }),
+  ...(rule.version && { version: rule.version }),
+  ...(rule.commit && { commit: rule.commit }),
+  ...(rule.stale && { stale: true }),
+  ...(rule.provenance && !rule.sections && !rule.summarized && !rule.truncated && { provenance: rule.provenance }),
+  ...(rule.compositionErrors && { compositionErrors: rule.compositionErrors }),
+  ...(rule.unresolvedVariables && { unresolvedVariables: rule.unresolvedVariables })
+});
+
+const toRulesMarkdown = (data: RulesResponse): string => {
+  const rules = data.rules.map(rule => {
+    const notes = [
+      rule.summarized && 'Summarized to fit the budget; request this rule alone for the full text.',
+      rule.truncated && 'Truncated to fit the budget.',
+      rule.stale && 'Served from a stale cache because the source was unreachable.',
+      rule.compositionErrors && `Composition errors: ${rule.compositionErrors.join('; ')}`,
+      rule.unresolvedVariables && `Unresolved variables: ${rule.unresolvedVariables.join(', ')}`
+    ].filter(Boolean).map(note => `> ${note}\n`).join('');
+    return `# ${rule.title}\n\n${notes ? `${notes}\n` : ''}${rule.content}`;
+  });
+
+  const notes = [
+    data.failed && `Not found: ${data.failed.join(', ')}`,
+    data.sectionsNotFound && `Sections not found in: ${data.sectionsNotFound.map(({ domain, availableHeadings }) => `${domain} (available: ${availableHeadings.join('; ') || 'none'})`).join(', ')}`,
+    data.versionMismatch && `Version mismatch: ${data.versionMismatch.map(({ domain, version }) => `${domain} (${version ?? 'no version'})`).join(', ')}`,
+    data.budget?.omitted.length && `Omitted to fit the budget: ${data.budget.omitted.join(', ')}`
+  ].filter(Boolean).map(note => `> ${note}`);
+
+  return [...rules, ...(notes.length > 0 ? [notes.join('\n')] : [])].join('\n\n---\n\n') || '> No rule content returned.';
+};
+
+const formatRulesResponse = (format: ResponseFormat, data: RulesResponse, legacy: object) => {
+  if (format === 'markdown') return { content: [{ type: 'text', text: toRulesMarkdown(data) }], structuredContent: data };
+  if (format === 'structured') {
+    return {
+      content: [
+        ...data.rules.map(rule => ({ type: 'resource', resource: { uri: toRuleUri(rule.title), mimeType: RULE_MIME_TYPE, text: rule.content } })),
+        { type: 'text', text: JSON.stringify({ ...data, rules: data.rules.map(({ content: _content, ...rule }) => rule) }, null, 2) }
+      ],
+      structuredContent: data
+    };
+  }
+  return { ...formatResponse(legacy), structuredContent: data };
+};
+
+const toDomainsMarkdown = (domains: DomainInfo[]): string => domains.length === 0
+  ? 'No rule files found in the configured rule source.'
+  : [`# Rule domains (${domains.length})`, '', ...domains.map(({ domain, description, globs, applyTo, alwaysApply }) => {
+    const scope = alwaysApply ? 'always applied' : (globs ?? applyTo)?.length ? `applies to ${(globs ?? applyTo)!.map(pattern => `\`${pattern}\``).join(', ')}` : '';
+    return `- **${domain}**: ${description}${scope ? ` (${scope})` : ''}`;
+  })].join('\n');
+
+const RULE_URI_PREFIX = 'rules://';
+const RULE_MIME_TYPE = 'text/markdown';
+
+const toRuleUri = (domain: string) => `${RULE_URI_PREFIX}${encodeURIComponent(domain)}`;
+
+const parseRuleUri = (uri: string): string => {
+  if (!uri.startsWith(RULE_URI_PREFIX)) {
+    throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`, undefined,
+      ['Rule resources use the form rules://{domain}', 'Use resources/list to see available rules']);
+  }
+
+  return sanitizeDomains([decodeURIComponent(uri.slice(RULE_URI_PREFIX.length))])[0];
+};
+
+const toIsoDate = (value?: string): string | undefined => {
+  const timestamp = value ? Date.parse(value) : NaN;
+  return Number.isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+};
+
+const getRuleOrThrow = async (ruleManager: RuleManager, domain: string) => {
+  const ruleContent = await ruleManager.getRuleContentSafe(domain);
+  if (!ruleContent) throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Rule not found for domain: ${domain}`, undefined, ['Use list_rules or resources/list to see available domains']);
+  return ruleContent;
+};
+
+export interface ServerOptions {
+  tools?: string[];
+}
+
+export const TOOL_NAMES: string[] = TOOLS.map(tool => tool.name);
+
+const MAX_LISTED_DOMAINS = 50;
+
+const withKnownDomains = (tool: typeof TOOLS[number], domains: string[]) => {
+  const properties = tool.inputSchema.properties as Record<string, { description?: string }>;
+  if (domains.length === 0 || !properties.domain) return tool;
+
+  const more = domains.length - MAX_LISTED_DOMAINS;
+  const listed = `${domains.slice(0, MAX_LISTED_DOMAINS).join(', ')}${more > 0 ? ` and ${more} more` : ''}`;
+  return { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...properties, domain: { ...properties.domain, description: `${properties.domain.description} (available: ${listed})` } } } };
+};
+
+export const resolveEnabledTools = (config: ToolsConfig = {}): string[] => {
+  const unknown = [...(config.enabled ?? []), ...(config.disabled ?? [])].filter(name => !TOOL_NAMES.includes(name));
+  if (unknown.length > 0) throw new Error(`Unknown tool${unknown.length === 1 ? '' : 's'} in configuration: ${unknown.join(', ')} (available: ${TOOL_NAMES.join(', ')})`);
+  return TOOL_NAMES.filter(name => (!config.enabled || config.enabled.includes(name)) && !config.disabled?.includes(name));
+};
+
+export const createServer = (ruleManager: RuleManager, options: ServerOptions = {}): Server => {
+  const enabledTools = new Set(options.tools ?? TOOL_NAMES);
+  const server = new Server({ name: 'agent-rules-mcp', version: '1.0.0' }, { capabilities: { tools: { listChanged: true }, resources: { subscribe: true, listChanged: true }, prompts: { listChanged: true } } });
+  const resourceSubscriptions = new Set<string>();
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: TOOLS.filter(tool => enabledTools.has(tool.name)).map(tool => withKnownDomains(tool, ruleManager.getKnownDomains()))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      if (TOOL_NAMES.includes(name) && !enabledTools.has(name)) throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} is disabled in the server configuration`);
+
+      if (name === 'get_rules') {
+        validateArgs(args);
+        const { domain, domains, section, headings, ref, version, variables, format } = args as { domain?: unknown; domains?: unknown; section?: unknown; headings?: unknown; ref?: unknown; version?: unknown; variables?: unknown; format?: unknown };
+        const domainsToProcess = validateDomainInput(domain, domains);
+        const responseFormat = validateFormatInput(format);
+        const selectors = validateSectionInput(section, headings);
+        const budget = validateBudgetInput(args as Record<string, unknown>);
+        const pinnedRef = validateRefInput(ref);
+        const versionRange = validateVersionInput(version);
+        const templateVariables = validateVariablesInput(variables);
+        const sanitizedDomains = sanitizeDomains(domainsToProcess);
+        const { successfulResults, failedDomains } = await processRuleResults(ruleManager, sanitizedDomains, pinnedRef, templateVariables);
+        const { matching, mismatched } = versionRange ? filterByVersion(successfulResults, versionRange) : { matching: successfulResults as RuleResult[], mismatched: [] };
+        const { selected, unmatched } = selectors
+          ? selectRuleSections(matching, selectors)
+          : { selected: matching, unmatched: [] };
+        const { items: rules, report } = budget ? applyBudget(selected, budget) : { items: selected as BudgetedItem<RuleResult>[], report: undefined };
+
+        const structuredData: RulesResponse = {
+          rules: rules.map(toRuleResponse),
+          total: rules.length,
+          ...(failedDomains.length > 0 && { failed: failedDomains }),
+          ...(unmatched.length > 0 && { sectionsNotFound: unmatched }),
+          ...(mismatched.length > 0 && { versionMismatch: mismatched }),
+          ...(report && { budget: report })
+        };
+        const responseData = domainsToProcess.length === 1
+          ? { ...(structuredData.rules[0] ?? { title: selected[0].domain, content: '' }), ...(report && { budget: report }) }
+          : structuredData;
+
+        return formatRulesResponse(responseFormat, structuredData, responseData);
+      }
+
+      if (name === 'get_rule_outline') {
+        validateArgs(args);
+        const [domain] = sanitizeDomains(validateDomainInput((args as { domain?: unknown }).domain, undefined));
+        const ruleContent = await ruleManager.getRuleContentSafe(domain);
+        if (!ruleContent) throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Rule not found for domain: ${domain}`, undefined, ['Use list_rules to see available domains']);
+
+        const toOutline = (nodes: OutlineNode[]): unknown[] => nodes.map(({ title, level, slug, children }) => ({ title, level, slug, ...(children.length > 0 && { children: toOutline(children) }) }));
+        return formatResponse({ domain: ruleContent.domain, outline: toOutline(parseOutline(ruleContent.content)) });
+      }
+
+      if (name === 'get_rules_for_files') {
+        validateArgs(args);
+        const files = validateFileInput((args as { files?: unknown }).files);
+        const matches = await ruleManager.getRulesForFiles(files);
+
+        const responseData = {
+          rules: matches.map(({ rule, alwaysApply, matchedFiles }) => ({ title: rule.domain, content: rule.content, ...(matchedFiles.length > 0 && { matchedFiles }), ...(alwaysApply && { alwaysApply }) })),
+          total: matches.length,
+          ...(matches.length === 0 && { message: 'No rules declare globs, applyTo or alwaysApply patterns matching the provided files.' })
+        };
+
+        return formatResponse(responseData);
+      }
+
+      if (name === 'search_rules') {
+        validateArgs(args);
+        const { query, ...options } = validateSearchInput(args as Record<string, unknown>);
+        const results = await ruleManager.searchRules(query, options);
+
+        return formatResponse({ results, total: results.length, query, ...(results.length === 0 && { message: 'No rules matched the search query.' }) });
+      }
+
+      if (name === 'diff_rules') {
+        validateArgs(args);
+        const { domain, from, to, sinceLastFetch } = args as { domain?: unknown; from?: unknown; to?: unknown; sinceLastFetch?: unknown };
+        const [sanitizedDomain] = sanitizeDomains(validateDomainInput(domain, undefined));
+        const options = { from: validateRefInput(from), to: validateRefInput(to), sinceLastFetch: sinceLastFetch === true };
+
+        if (!options.from && !options.sinceLastFetch) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'diff_rules requires "from" or "sinceLastFetch"', undefined,
+            ['Example: {"domain": "react", "from": "v1.0.0"}', 'Example: {"domain": "react", "sinceLastFetch": true}']);
+        }
+
+        try {
+          return formatResponse(await ruleManager.diffRule(sanitizedDomain, options));
+        } catch (error) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Cannot diff ${sanitizedDomain}: ${error instanceof Error ? error.message : error}`, undefined,
+            ['diff_rules needs a GitHub rule source', 'Check that the refs exist in the repository', 'Use list_rules to see available domains']);
+        }
+      }
+
+      if (name === 'validate_rules') {
+        const { format = 'json', maxFileSize } = (args ?? {}) as { format?: unknown; maxFileSize?: unknown };
+        if (format !== 'json' && format !== 'sarif') {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid format: ${String(format)}`, undefined, ['Use "json" or "sarif"']);
+        }
+        if (maxFileSize !== undefined && (typeof maxFileSize !== 'number' || !Number.isInteger(maxFileSize) || maxFileSize < 1)) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, 'maxFileSize must be a positive integer', undefined, ['Example: {"maxFileSize": 65536}']);
+        }
+
+        const report = await lintRuleSources(ruleManager.getSources(), { maxFileSize: maxFileSize as number | undefined });
+        return formatResponse(format === 'sarif' ? toSarif(report) : report);
+      }
+
+      if (name === 'export_rules') {
+        const { target, domains } = (args ?? {}) as { target?: unknown; domains?: unknown };
+        if (!isExportTarget(target)) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid target: ${String(target)}`, undefined, [`Use one of: ${EXPORT_TARGETS.join(', ')}`]);
+        }
+        const sanitizedDomains = domains === undefined ? [] : sanitizeDomains(validateDomainInput(undefined, domains));
+
+        try {
+          return formatResponse(await ruleManager.exportRules(target, sanitizedDomains));
+        } catch (error) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Cannot export rules: ${error instanceof Error ? error.message : error}`, undefined,
+            ['Use list_rules to see available domains']);
+        }
+      }
+
+      if (name === 'install_rules') {
+        const { target, domains, directory, sync, dryRun, force } = (args ?? {}) as { target?: unknown; domains?: unknown; directory?: unknown; sync?: unknown; dryRun?: unknown; force?: unknown };
+        const options = { directory: typeof directory === 'string' ? directory : undefined, dryRun: dryRun === true, force: force === true };
+
+        if (sync !== true && !isExportTarget(target)) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Invalid target: ${String(target)}`, undefined, [`Use one of: ${EXPORT_TARGETS.join(', ')}`, 'Or pass {"sync": true} to update installed rules']);
+        }
+        const sanitizedDomains = sync === true ? [] : sanitizeDomains(validateDomainInput(undefined, domains));
+
+        try {
+          return formatResponse(sync === true ? await syncRules(ruleManager, options) : await installRules(ruleManager, target as ExportTarget, sanitizedDomains, options));
+        } catch (error) {
+          throw ErrorHandler.createMcpError(ErrorCode.InvalidParams, `Cannot install rules: ${error instanceof Error ? error.message : error}`, undefined,
+            ['Use list_rules to see available domains', 'Keep directory inside the workspace root']);
+        }
+      }
+
+      if (name === 'list_rules') {
+        const responseFormat = validateFormatInput((args as { format?: unknown } | undefined)?.format);
+        const domains = await ruleManager.listAvailableDomains();
+        const responseData = domains.length === 0
+          ? { domains: [], totalCount: 0, message: 'No rule files found in the configured rule source.' }
+          : { domains: domains.map(({ domain, description, lastUpdated, source, shadows, commit, stale, ...metadata }) => ({ domain, description, lastUpdated, ...metadata, source, ...(shadows && { shadows }), ...(commit && { commit }), ...(stale && { stale }) })), totalCount: domains.length, message: `Found ${domains.length} rule domain${domains.length === 1 ? '' : 's'}` };
+
+        return responseFormat === 'markdown'
+          ? { content: [{ type: 'text', text: toDomainsMarkdown(domains) }], structuredContent: responseData }
+          : { ...formatResponse(responseData), structuredContent: responseData };
+      }
+
+      if (name === 'server_status') {
+        return formatResponse(await ruleManager.getStatus());
+      }
+
+      if (name === 'refresh_rules') {
+        const { domains } = (args ?? {}) as { domains?: unknown };
+        const sanitizedDomains = domains === undefined ? [] : sanitizeDomains(validateDomainInput(undefined, domains));
+        return formatResponse(await ruleManager.refreshRules(sanitizedDomains));
+      }
+
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      Logger.error(`Error in tool ${name}`, error, { toolName: name });
+      throw ErrorHandler.createMcpError(ErrorCode.InternalError, `Internal error in tool ${name}`, undefined,
+        ['Check server logs for more details', 'Retry the request', 'Contact support if the problem persists']);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const domains = await ruleManager.listAvailableDomains();
+    return {
+      resources: domains.map(({ domain, description, lastUpdated, source }) => {
+        const lastModified = toIsoDate(lastUpdated);
+        return {
+          uri: toRuleUri(domain), name: domain, description, mimeType: RULE_MIME_TYPE,
+          ...(lastModified && { annotations: { lastModified } }),
+          _meta: { source, ...(lastUpdated && { lastUpdated }) }
+        };
+      })
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [{ uriTemplate: `${RULE_URI_PREFIX}{domain}`, name: 'rule', title: 'Development rules by domain', description: 'Rule content for a domain returned by list_rules', mimeType: RULE_MIME_TYPE }]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const ruleContent = await getRuleOrThrow(ruleManager, parseRuleUri(uri));
+
+    return {
+      contents: [{
+        uri, mimeType: RULE_MIME_TYPE, text: ruleContent.content,
+        _meta: { source: ruleContent.source, ...(ruleContent.lastUpdated && { lastUpdated: ruleContent.lastUpdated }), ...(ruleContent.version && { version: ruleContent.version }) }
+      }]
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    parseRuleUri(request.params.uri);
+    resourceSubscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const domains = await ruleManager.listAvailableDomains();
+    return {
+      prompts: domains.map(({ domain, description }) => ({
+        name: domain, description,
+        arguments: [{ name: 'section', description: 'Optional heading to include instead of the whole rule', required: false }]
+      }))
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: promptArgs } = request.params;
+    const ruleContent = await getRuleOrThrow(ruleManager, sanitizeDomains([name])[0]);
+    const selectors = promptArgs?.section ? [promptArgs.section] : undefined;
+    const content = selectors ? selectRuleSections([ruleContent], selectors).selected[0].content : ruleContent.content;
+
+    return {
+      description: ruleContent.description,
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text: `Follow these ${ruleContent.domain} rules for the rest of this task:\n\n${content}` } }]
+    };
+  });
+
+  const unsubscribe = ruleManager.onChange((event) => {
+    const uri = event.type === 'updated' ? toRuleUri(event.domain) : undefined;
+    const notifications = uri
+      ? (resourceSubscriptions.has(uri) ? [server.sendResourceUpdated({ uri })] : [])
+      : [server.sendResourceListChanged(), server.sendPromptListChanged(), server.sendToolListChanged()];
+
+    Promise.all(notifications).catch(error => Logger.warn('Failed to send change notification', { event, error: error instanceof Error ? error.message : error }));
+  });
+
+  server.onclose = () => unsubscribe();
+  return server;
+};
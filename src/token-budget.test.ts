@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { applyBudget, estimateTokens, summarizeRule } from './token-budget.js';
+
+describe('token budget', () => {
+    const rules = [
+        { domain: 'security', description: 'Security rules', priority: 1, content: `# Security\n\n## Secrets\n${'Never commit secrets.\n'.repeat(40)}` },
+        { domain: 'react', description: 'React rules', priority: 5, content: '# React\n\n## Hooks\nUse hooks.' },
+        { domain: 'clean-code', description: 'Clean code', content: `# Clean Code\n\n## Naming\n${'Use descriptive names.\n'.repeat(10)}` }
+    ];
+
+    it('should estimate roughly four characters per token', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('a'.repeat(400))).toBe(100);
+        expect(estimateTokens('{}();'.repeat(20))).toBeGreaterThan(25);
+    });
+
+    it('should include everything when the budget is large enough', () => {
+        const { items, report } = applyBudget(rules, { maxTokens: 10000 });
+
+        expect(items.map(i => i.domain)).toEqual(['security', 'react', 'clean-code']);
+        expect(report.omitted).toEqual([]);
+        expect(report.usedChars).toBe(rules.reduce((total, rule) => total + rule.content.length, 0));
+    });
+
+    it('should summarize rules that do not fit', () => {
+        const { items, report } = applyBudget(rules, { maxChars: 400 });
+
+        expect(report.summarized).toContain('security');
+        expect(items.find(i => i.domain === 'security')?.content).toContain('Summary of security: Security rules');
+        expect(report.usedChars).toBeLessThanOrEqual(400);
+    });
+
+    it('should order by priority or size before applying the budget', () => {
+        expect(applyBudget(rules, { maxTokens: 10000, order: 'priority' }).items.map(i => i.domain)).toEqual(['react', 'security', 'clean-code']);
+        expect(applyBudget(rules, { maxTokens: 10000, order: 'smallest' }).items.map(i => i.domain)).toEqual(['react', 'clean-code', 'security']);
+    });
+
+    it('should truncate or omit depending on the fallback', () => {
+        const truncated = applyBudget(rules, { maxChars: 600, fallback: 'truncate' });
+        const omitted = applyBudget(rules, { maxChars: 100, fallback: 'omit', order: 'smallest' });
+
+        expect(truncated.report.truncated).toEqual(['security']);
+        const [, kept, dropped] = truncated.items[0].content.match(/^([\s\S]*)\n\n\[truncated: (\d+) more characters\]$/)!;
+        expect(kept.endsWith('Never commit secrets.')).toBe(true);
+        expect(Number(dropped)).toBe(rules[0].content.length - kept.length);
+        expect(truncated.report.usedChars).toBeLessThanOrEqual(600);
+        expect(omitted.items.map(i => i.domain)).toEqual(['react']);
+        expect(omitted.report.omitted).toEqual(['clean-code', 'security']);
+    });
+
+    it('should list headings in summaries', () => {
+        expect(summarizeRule(rules[1])).toBe('Summary of react: React rules\n\nSections (request with the section parameter):\n- React\n- Hooks');
+    });
+});
@@ -0,0 +1,124 @@
+import { flattenOutline, parseOutline } from './markdown-outline.js';
+
+export type BudgetOrder = 'request' | 'priority' | 'smallest';
+export type BudgetFallback = 'summary' | 'truncate' | 'omit';
+
+export interface BudgetOptions {
+  maxTokens?: number;
+  maxChars?: number;
+  order?: BudgetOrder;
+  fallback?: BudgetFallback;
+}
+
+export interface BudgetItem {
+  domain: string;
+  content: string;
+  description?: string;
+  priority?: number;
+}
+
+export type BudgetedItem<T extends BudgetItem> = T & { summarized?: boolean; truncated?: boolean };
+
+export interface BudgetReport {
+  maxTokens?: number;
+  maxChars?: number;
+  order: BudgetOrder;
+  usedTokens: number;
+  usedChars: number;
+  summarized: string[];
+  truncated: string[];
+  omitted: string[];
+}
+
+export const BUDGET_ORDERS: BudgetOrder[] = ['request', 'priority', 'smallest'];
+export const BUDGET_FALLBACKS: BudgetFallback[] = ['summary', 'truncate', 'omit'];
+
+const CHARS_PER_TOKEN = 4;
+const MIN_TRUNCATED_CHARS = 200;
+
+// Roughly 4 characters per token for English prose and code; words and symbols are counted
+// separately so dense code does not get underestimated.
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const wordsAndSymbols = text.match(/[A-Za-z0-9_]+|[^\sA-Za-z0-9_]/g)?.length ?? 0;
+  return Math.max(Math.ceil(text.length / CHARS_PER_TOKEN), Math.ceil(wordsAndSymbols * 0.75));
+};
+
+export const summarizeRule = (item: BudgetItem): string => {
+  const headings = flattenOutline(parseOutline(item.content)).filter(node => node.level <= 3).map(node => `${'  '.repeat(Math.max(0, node.level - 2))}- ${node.title}`);
+  return [`Summary of ${item.domain}: ${item.description || 'no description available'}`, ...(headings.length > 0 ? ['', 'Sections (request with the section parameter):', ...headings] : [])].join('\n');
+};
+
+const orderItems = <T extends BudgetItem>(items: T[], order: BudgetOrder): T[] => {
+  const indexed = items.map((item, index) => ({ item, index }));
+
+  if (order === 'priority') indexed.sort((a, b) => (b.item.priority ?? -Infinity) - (a.item.priority ?? -Infinity) || a.index - b.index);
+  if (order === 'smallest') indexed.sort((a, b) => a.item.content.length - b.item.content.length || a.index - b.index);
+
+  return indexed.map(({ item }) => item);
+};
+
+const truncateToFit = (content: string, maxChars: number, fits: (text: string) => boolean): string | null => {
+  let limit = maxChars;
+
+  while (limit >= MIN_TRUNCATED_CHARS) {
+    const cut = content.slice(0, limit);
+    const lineBreak = cut.lastIndexOf('\n');
+    const kept = (lineBreak > limit / 2 ? cut.slice(0, lineBreak) : cut).trimEnd();
+    const candidate = `${kept}\n\n[truncated: ${content.length - kept.length} more characters]`;
+    if (fits(candidate)) return candidate;
+    limit = Math.floor(limit * 0.9);
+  }
+
+  return null;
+};
+
+export const applyBudget = <T extends BudgetItem>(items: T[], options: BudgetOptions): { items: BudgetedItem<T>[]; report: BudgetReport } => {
+  const order = options.order ?? 'request';
+  const fallback = options.fallback ?? 'summary';
+  const report: BudgetReport = { ...(options.maxTokens && { maxTokens: options.maxTokens }), ...(options.maxChars && { maxChars: options.maxChars }), order, usedTokens: 0, usedChars: 0, summarized: [], truncated: [], omitted: [] };
+  const included: BudgetedItem<T>[] = [];
+
+  const fits = (text: string) =>
+    (!options.maxChars || report.usedChars + text.length <= options.maxChars) &&
+    (!options.maxTokens || report.usedTokens + estimateTokens(text) <= options.maxTokens);
+
+  const include = (item: BudgetedItem<T>) => {
+    included.push(item);
+    report.usedChars += item.content.length;
+    report.usedTokens += estimateTokens(item.content);
+  };
+
+  for (const item of orderItems(items, order)) {
+    if (fits(item.content)) {
+      include(item);
+      continue;
+    }
+
+    if (fallback === 'summary') {
+      const summary = summarizeRule(item);
+      if (fits(summary)) {
+        include({ ...item, content: summary, summarized: true });
+        report.summarized.push(item.domain);
+        continue;
+      }
+    }
+
+    if (fallback === 'truncate') {
+      const remainingChars = Math.min(
+        options.maxChars ? options.maxChars - report.usedChars : Infinity,
+        options.maxTokens ? (options.maxTokens - report.usedTokens) * CHARS_PER_TOKEN : Infinity
+      );
+      const truncated = truncateToFit(item.content, Math.min(remainingChars, item.content.length), fits);
+      if (truncated) {
+        include({ ...item, content: truncated, truncated: true });
+        report.truncated.push(item.domain);
+        continue;
+      }
+    }
+
+    report.omitted.push(item.domain);
+  }
+
+  return { items: included, report };
+};